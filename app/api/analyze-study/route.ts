@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { executeQuerySingle, getDbType } from "@/lib/db";
 import { validateOrigin } from "@/lib/origin-validator";
+import { getStudyDataIssue } from "@/lib/risk-calculator";
+import { classifyEffect } from "@/lib/effect-classification";
 
 // This endpoint only returns study metadata - NO user genetic data is processed here
 export async function POST(request: NextRequest) {
@@ -35,12 +37,16 @@ export async function POST(request: NextRequest) {
         strongest_snp_risk_allele,
         or_or_beta,
         ci_text,
-        study_accession
+        study_accession,
+        chr_id,
+        chr_pos,
+        snp_id_current,
+        risk_allele_frequency,
+        mapped_trait_uri,
+        mapped_trait,
+        disease_trait
       FROM gwas_catalog
       WHERE ${idCondition}
-      AND snps IS NOT NULL AND snps != ''
-      AND strongest_snp_risk_allele IS NOT NULL AND strongest_snp_risk_allele != ''
-      AND or_or_beta IS NOT NULL AND or_or_beta != ''
     `;
 
     const study = await executeQuerySingle<{
@@ -49,20 +55,34 @@ export async function POST(request: NextRequest) {
       or_or_beta: string | null;
       ci_text: string | null;
       study_accession: string | null;
+      chr_id: string | null;
+      chr_pos: string | null;
+      snp_id_current: string | null;
+      risk_allele_frequency: string | null;
+      mapped_trait_uri: string | null;
+      mapped_trait: string | null;
+      disease_trait: string | null;
     }>(query, [studyId]);
 
     if (!study) {
       return NextResponse.json({
         success: false,
-        error: 'Study not found or missing required data'
+        error: 'Study not found'
       }, { status: 404 });
     }
 
-    // Determine effect type from ci_text
-    // Beta coefficients have "unit" in CI (e.g., "[0.0068-0.0139] unit increase")
-    // Odds ratios are just numbers (e.g., "[1.08-1.15]")
-    const isBeta = study.ci_text?.toLowerCase().includes('unit') ?? false;
-    const effectType = isBeta ? 'beta' : 'OR';
+    // Rows without variants, a usable risk allele or an effect size can't be scored
+    const dataIssue = getStudyDataIssue(study.snps, study.strongest_snp_risk_allele, study.or_or_beta);
+    if (dataIssue) {
+      return NextResponse.json({
+        success: false,
+        error: 'Study is missing data needed for analysis',
+        reason: dataIssue,
+      }, { status: 422 });
+    }
+
+    // Odds ratio, hazard ratio or beta, from ci_text, the trait and the effect's value
+    const effect = classifyEffect(study.ci_text, study.mapped_trait || study.disease_trait, study.or_or_beta);
 
     // Return only study metadata - client will perform the analysis
     return NextResponse.json({
@@ -71,9 +91,21 @@ export async function POST(request: NextRequest) {
         snps: study.snps,
         riskAllele: study.strongest_snp_risk_allele,
         effectSize: study.or_or_beta,
-        effectType: effectType,
+        effectType: effect.effectType,
+        // A beta's unit ("cm", "mg/dL", "SD") and direction; the catalog reports betas unsigned
+        effectUnit: effect.unit,
+        effectDirection: effect.direction,
         confidenceInterval: study.ci_text,
         gwasId: study.study_accession,
+        // GRCh38 coordinates for matching variants the upload doesn't name by rsID
+        chrId: study.chr_id,
+        chrPos: study.chr_pos,
+        // Current rsID when dbSNP has merged the reported one
+        snpIdCurrent: study.snp_id_current,
+        // Settles the strand of A/T and C/G risk alleles
+        riskAlleleFrequency: study.risk_allele_frequency,
+        // Looks up the trait's prevalence for absolute risk
+        mappedTraitUri: study.mapped_trait_uri,
       }
     });
 
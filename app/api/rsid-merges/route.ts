@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { executeQuery } from "@/lib/db";
+import { validateOrigin } from "@/lib/origin-validator";
+import { toCurrentRsid } from "@/lib/rsid-merges";
+
+type RsidMerge = { rsid: string; currentRsid: string };
+
+// The catalog only changes when it is re-imported, so the merge list is queried once
+// per server process and cached by browsers between uploads
+let cachedMerges: RsidMerge[] | null = null;
+const CACHE_CONTROL = "public, max-age=86400";
+
+// Retired rsID -> current rsID pairs recorded in the catalog. Contains no user data;
+// matching against the upload happens client-side.
+export async function GET(request: NextRequest) {
+  // Validate origin
+  const originError = validateOrigin(request);
+  if (originError) return originError;
+
+  try {
+    if (!cachedMerges) {
+      const rows = await executeQuery<{ snps: string | null; snp_id_current: string | null }>(
+        `SELECT DISTINCT TRIM(snps) AS snps, TRIM(snp_id_current) AS snp_id_current
+         FROM gwas_catalog
+         WHERE merged = '1'
+         AND snp_id_current IS NOT NULL AND snp_id_current != ''
+         AND snps LIKE 'rs%'`
+      );
+
+      cachedMerges = rows.flatMap((row) => {
+        const currentRsid = toCurrentRsid(row.snp_id_current);
+        // Only single-variant rows map one-to-one onto snp_id_current
+        if (!row.snps || !currentRsid || !/^rs\d+$/.test(row.snps)) return [];
+        return [{ rsid: row.snps, currentRsid }];
+      });
+    }
+
+    return NextResponse.json({ merges: cachedMerges }, { headers: { "Cache-Control": CACHE_CONTROL } });
+  } catch (error) {
+    console.error('rsID merges error:', error);
+    return NextResponse.json({ error: 'Failed to load rsID merges' }, { status: 500 });
+  }
+}
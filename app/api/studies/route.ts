@@ -11,6 +11,7 @@ import {
   parseSampleSize,
   QualityFlag,
 } from "@/lib/parsing";
+import { classifyEffect, EffectDirection, EffectType } from "@/lib/effect-classification";
 
 type ConfidenceBand = "high" | "medium" | "low";
 
@@ -32,9 +33,13 @@ type RawStudy = {
   p_value: string | null;
   pvalue_mlog: string | null;
   or_or_beta: string | null;
+  ci_text: string | null;
   risk_allele_frequency: string | null;
   strongest_snp_risk_allele: string | null;
   snps: string | null;
+  chr_id: string | null;
+  chr_pos: string | null;
+  snp_id_current: string | null;
 };
 
 type Study = RawStudy & {
@@ -47,6 +52,9 @@ type Study = RawStudy & {
   isLowQuality: boolean;
   confidenceBand: ConfidenceBand;
   publicationDate: number | null;
+  effectType: EffectType;
+  effectUnit: string | null;
+  effectDirection: EffectDirection | null;
 };
 
 function normalizeYear(value: string): number | null {
@@ -295,9 +303,13 @@ export async function GET(request: NextRequest) {
        p_value,
        pvalue_mlog,
        or_or_beta,
+       ci_text,
        risk_allele_frequency,
        strongest_snp_risk_allele,
-       snps
+       snps,
+       chr_id,
+       chr_pos,
+       snp_id_current
     FROM gwas_catalog
     ${whereClause}
     LIMIT ?`;
@@ -319,6 +331,7 @@ export async function GET(request: NextRequest) {
       const isLowQuality = hasMajorFlags; // Only major flags indicate truly low quality
       const confidenceBand = determineConfidenceBand(sampleSize, pValueNumeric, logPValue, qualityFlags);
       const publicationDate = parseStudyDate(row.date);
+      const effect = classifyEffect(row.ci_text, row.mapped_trait || row.disease_trait, row.or_or_beta);
       return {
         ...row,
         sampleSize,
@@ -330,6 +343,9 @@ export async function GET(request: NextRequest) {
         isLowQuality,
         confidenceBand,
         publicationDate,
+        effectType: effect.effectType,
+        effectUnit: effect.unit,
+        effectDirection: effect.direction,
       } satisfies Study;
     })
     .filter((row) => {
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { executeQuery, getDbType } from "@/lib/db";
+import { validateOrigin } from "@/lib/origin-validator";
+import { classifyEffect } from "@/lib/effect-classification";
+
+// Traits like height have thousands of associations; more than this is truncated
+const MAX_ASSOCIATIONS = 5000;
+
+// Every association reported for a trait, for the trait-level polygenic score.
+// This endpoint only returns catalog metadata - NO user genetic data is processed here
+export async function GET(request: NextRequest) {
+  // Validate origin
+  const originError = validateOrigin(request);
+  if (originError) return originError;
+
+  const trait = request.nextUrl.searchParams.get("trait")?.trim();
+  if (!trait) {
+    return NextResponse.json({
+      success: false,
+      error: 'Missing trait'
+    }, { status: 400 });
+  }
+
+  try {
+    // pvalue_mlog is stored as text; most significant first, so truncation drops the weakest rows
+    const logPValue = getDbType() === 'postgres'
+      ? "NULLIF(TRIM(pvalue_mlog), '')::double precision"
+      : "CAST(NULLIF(TRIM(pvalue_mlog), '') AS REAL)";
+
+    // Same trait key as /api/traits: mapped_trait, or disease_trait for unmapped rows
+    const rows = await executeQuery<{
+      snps: string | null;
+      strongest_snp_risk_allele: string | null;
+      or_or_beta: string | null;
+      ci_text: string | null;
+      p_value: string | null;
+      study_accession: string | null;
+      chr_id: string | null;
+      chr_pos: string | null;
+      snp_id_current: string | null;
+      risk_allele_frequency: string | null;
+    }>(
+      `SELECT
+         snps,
+         strongest_snp_risk_allele,
+         or_or_beta,
+         ci_text,
+         p_value,
+         study_accession,
+         chr_id,
+         chr_pos,
+         snp_id_current,
+         risk_allele_frequency
+       FROM gwas_catalog
+       WHERE COALESCE(NULLIF(TRIM(mapped_trait), ''), NULLIF(TRIM(disease_trait), '')) = ?
+       ORDER BY ${logPValue} DESC NULLS LAST
+       LIMIT ?`,
+      [trait, MAX_ASSOCIATIONS + 1]
+    );
+
+    const associations = rows.slice(0, MAX_ASSOCIATIONS).map((row) => {
+      // Same effect classification as /api/analyze-study
+      const effect = classifyEffect(row.ci_text, trait, row.or_or_beta);
+      return {
+        snps: row.snps,
+        riskAllele: row.strongest_snp_risk_allele,
+        effectSize: row.or_or_beta,
+        effectType: effect.effectType,
+        effectUnit: effect.unit,
+        effectDirection: effect.direction,
+        confidenceInterval: row.ci_text,
+        pValue: row.p_value,
+        gwasId: row.study_accession,
+        chrId: row.chr_id,
+        chrPos: row.chr_pos,
+        snpIdCurrent: row.snp_id_current,
+        riskAlleleFrequency: row.risk_allele_frequency,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      trait,
+      associations,
+      truncated: rows.length > MAX_ASSOCIATIONS,
+    });
+  } catch (error) {
+    console.error('Trait associations error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load trait associations'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { GenotypeSource, useGenotype } from "./UserDataUpload";
+import { GenotypeChipDetection } from "@/lib/genotype-parser";
+
+const CHIP_SOURCE_LABELS: Record<GenotypeChipDetection['source'], string> = {
+  header: 'Declared in the file header',
+  'marker-set': 'Recognized from array-specific marker names in the file',
+  'variant-count': 'Estimated from the number of variants in the file',
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+}
+
+// QC figures for one uploaded file
+function SourceQC({ source, showFileName }: { source: GenotypeSource; showFileName: boolean }) {
+  const { qc, chip, sexInference } = source;
+  if (!qc) return null;
+
+  return (
+    <div className="genotype-qc-source">
+      {showFileName && <p className="genotype-source-name" title={source.fileName}>{source.fileName}</p>}
+      <dl className="genotype-qc-stats">
+        <dt>Call rate</dt>
+        <dd>{formatPercent(qc.callRate)} ({qc.noCalls.toLocaleString()} no-calls)</dd>
+        <dt>Heterozygosity</dt>
+        <dd>{formatPercent(qc.heterozygosityRate)} of autosomal calls</dd>
+        <dt>Inferred sex</dt>
+        <dd>{sexInference && sexInference.sex !== 'unknown' ? sexInference.sex : 'Undetermined'}</dd>
+        <dt>Chip</dt>
+        <dd title={chip ? CHIP_SOURCE_LABELS[chip.source] : undefined}>
+          {chip ? chip.chip : 'Not recognized'}
+        </dd>
+      </dl>
+
+      {qc.warnings.length > 0 && (
+        <ul className="genotype-qc-warnings">
+          {qc.warnings.map(warning => (
+            <li key={warning.message} className={`qc-${warning.severity}`}>{warning.message}</li>
+          ))}
+        </ul>
+      )}
+
+      <details className="genotype-qc-chromosomes">
+        <summary>No-calls by chromosome</summary>
+        <div className="genotype-qc-chromosome-grid">
+          {qc.chromosomes.map(({ chromosome, total, noCalls }) => (
+            <span key={chromosome} title={`${noCalls.toLocaleString()} of ${total.toLocaleString()} variants not called`}>
+              <strong>{chromosome}</strong> {noCalls.toLocaleString()}
+            </span>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
+
+// Quality-control summary of the loaded genotypes, shown in the menu bar
+export default function GenotypeQCPanel() {
+  const { genotypeData, sources } = useGenotype();
+  if (!genotypeData) return null;
+
+  const hasErrors = sources.some(source => source.qc?.warnings.some(warning => warning.severity === 'error'));
+  const hasWarnings = sources.some(source => (source.qc?.warnings.length ?? 0) > 0);
+
+  return (
+    <details className={`genotype-diagnostics genotype-qc ${hasErrors ? 'qc-error' : hasWarnings ? 'qc-warning' : ''}`}>
+      <summary className="stat-item">
+        {hasWarnings && '⚠ '}
+        {genotypeData.size.toLocaleString()} variants loaded
+      </summary>
+      <div className="genotype-diagnostics-panel">
+        {sources.map((source, index) => (
+          <SourceQC key={`${source.fileHash}-${index}`} source={source} showFileName={sources.length > 1} />
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { SavedResult } from "@/lib/results-manager";
+import { EFFECT_TYPE_LABELS, formatEffectScore } from "@/lib/effect-classification";
 import { NilaiOpenAIClient, AuthType } from "@nillion/nilai-ts";
 import NilAIConsentModal from "./NilAIConsentModal";
 import StudyQualityIndicators from "./StudyQualityIndicators";
@@ -115,8 +116,8 @@ export default function LLMCommentaryModal({
           `${idx + 1}. ${r.traitName} (${r.studyTitle}):
    - Your genotype: ${r.userGenotype}
    - Risk allele: ${r.riskAllele}
-   - Effect size: ${r.effectSize}
-   - Risk score: ${r.riskScore}x (${r.riskLevel})
+   - Effect size: ${r.effectSize} (${EFFECT_TYPE_LABELS[r.effectType ?? 'OR']})
+   - Risk score: ${formatEffectScore(r.riskScore, r.effectType, r.effectUnit)} (${r.riskLevel})
    - Matched SNP: ${r.matchedSnp}`
         )
         .join('\n\n');
@@ -160,9 +161,15 @@ Trait: ${currentResult.traitName}
 Study: ${currentResult.studyTitle}
 Your genotype: ${currentResult.userGenotype}
 Risk allele: ${currentResult.riskAllele}
-Effect size: ${currentResult.effectSize}
-Risk score: ${currentResult.riskScore}x (${currentResult.riskLevel})
-Matched SNP: ${currentResult.matchedSnp}
+Effect size: ${currentResult.effectSize} (${EFFECT_TYPE_LABELS[currentResult.effectType ?? 'OR']})
+Risk score: ${formatEffectScore(currentResult.riskScore, currentResult.effectType, currentResult.effectUnit)} (${currentResult.riskLevel})
+Matched SNP: ${currentResult.matchedSnp}${currentResult.matches && currentResult.matches.length > 1
+  ? currentResult.aggregate?.scoredAs === 'combination'
+    ? `\nAll matched SNPs (the study's estimate is for their combination and was applied once, for the risk allele copies every SNP carries): ${currentResult.matches.map(m => `${m.snp} ${m.genotype} vs ${m.riskAllele} (${m.riskAlleleCount} copies)`).join('; ')}`
+    : `\nAll matched SNPs (risk score combines them, assuming independent inheritance): ${currentResult.matches.map(m => `${m.snp} ${m.genotype} vs ${m.riskAllele} (${formatEffectScore(m.score, currentResult.effectType, currentResult.effectUnit)})`).join('; ')}`
+  : ''}${currentResult.aggregate?.partial
+  ? `\nPartly observed combination: ${currentResult.aggregate.missingSnps?.join(', ')} could not be read from the file; the score assumes they carry their risk alleles`
+  : ''}
 Study date: ${currentResult.analysisDate}
 
 ALL YOUR SAVED RESULTS FOR CONTEXT:
@@ -286,7 +293,8 @@ Keep your response concise (400-600 words), educational, and reassuring where ap
                 <strong>Your genotype:</strong> {currentResult.userGenotype}
               </span>
               <span>
-                <strong>Risk score:</strong> {currentResult.riskScore}x ({currentResult.riskLevel})
+                <strong>Risk score:</strong> {formatEffectScore(currentResult.riskScore, currentResult.effectType, currentResult.effectUnit)}{" "}
+                ({EFFECT_TYPE_LABELS[currentResult.effectType ?? 'OR']}, {currentResult.riskLevel})
               </span>
             </div>
           </div>
@@ -2,11 +2,14 @@
 
 import { useState, useEffect } from "react";
 import UserDataUpload, { useGenotype } from "./UserDataUpload";
+import GenotypeQCPanel from "./GenotypeQCPanel";
+import PgsScorePanel from "./PgsScorePanel";
+import { GenotypeExportFormat } from "@/lib/genotype-export";
 import { useResults } from "./ResultsContext";
 import { FileIcon, SaveIcon, TrashIcon, MessageIcon, ClockIcon } from "./Icons";
 
 export default function MenuBar() {
-  const { isUploaded, genotypeData, fileHash } = useGenotype();
+  const { isUploaded, genotypeData, fileHash, exportGenotype, alleleTable } = useGenotype();
   const { savedResults, saveToFile, loadFromFile, clearResults } = useResults();
   const [isLoadingFile, setIsLoadingFile] = useState(false);
   const [theme, setTheme] = useState<"light" | "dark">("dark");
@@ -43,6 +46,26 @@ export default function MenuBar() {
     }
   };
 
+  const handleExportGenotype = (format: GenotypeExportFormat) => {
+    const exported = exportGenotype(format);
+    if (exported && exported.exported === 0) {
+      alert(
+        format === 'vcf' && !alleleTable?.size
+          ? 'SNP allele reference not installed. VCF export takes REF/ALT from public/reference/snp-alleles.tsv, ' +
+            'which ships with only its header; see the README to generate it, or export as PLINK instead.'
+          : `No variants could be exported: none are on ${exported.build ?? 'a known build'} with calls the format can represent.`
+      );
+    } else if (exported && exported.skipped > 0) {
+      alert(
+        `Exported ${exported.exported.toLocaleString()} variants on ${exported.build ?? 'an unknown build'}. ` +
+        `${exported.skipped.toLocaleString()} were left out because they are on another genome build` +
+        (format === 'vcf'
+          ? ', have no known reference allele (install the SNP allele reference, see the README), or are insertion/deletion (I/D) calls without base alleles.'
+          : '.')
+      );
+    }
+  };
+
   return (
     <div className="menu-bar">
       <div className="menu-left">
@@ -62,12 +85,27 @@ export default function MenuBar() {
 
       <div className="menu-right">
         <div className="genotype-section">
-          {isUploaded && genotypeData && (
-            <span className="stat-item">
-              {genotypeData.size.toLocaleString()} variants loaded
-            </span>
-          )}
+          {isUploaded && <GenotypeQCPanel />}
+          {isUploaded && <PgsScorePanel key={fileHash ?? ""} />}
           <UserDataUpload />
+          {isUploaded && (
+            <div className="results-controls">
+              <button
+                className="control-button save"
+                onClick={() => handleExportGenotype("vcf")}
+                title="Download your genotypes as a VCF 4.2 file, generated in your browser"
+              >
+                <SaveIcon size={14} /> VCF
+              </button>
+              <button
+                className="control-button save"
+                onClick={() => handleExportGenotype("plink")}
+                title="Download your genotypes as a PLINK .ped/.map file pair, generated in your browser"
+              >
+                <SaveIcon size={14} /> PLINK
+              </button>
+            </div>
+          )}
         </div>
 
         {isUploaded && (
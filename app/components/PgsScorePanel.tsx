@@ -0,0 +1,158 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useGenotype } from "./UserDataUpload";
+import DisclaimerModal from "./DisclaimerModal";
+import { computePgsScore, PgsScoreResult, PgsScoringFile } from "@/lib/pgs-scoring";
+import type { GenotypeWorkerMessage, GenotypeWorkerRequest } from "@/lib/genotype-stream";
+
+function formatScore(value: number | null, digits = 4): string {
+  return value === null ? 'n/a' : value.toFixed(digits);
+}
+
+// Scoring files can have millions of rows, so they are decompressed and parsed in the
+// genotype parser Web Worker rather than on the main thread
+function readScoringFileInWorker(file: File): Promise<PgsScoringFile> {
+  const worker = new Worker(new URL("../../lib/genotype-parser.worker.ts", import.meta.url));
+
+  return new Promise<PgsScoringFile>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<GenotypeWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') return;
+
+      worker.terminate();
+      if (message.type === 'pgs-complete') {
+        resolve(message.scoringFile);
+      } else {
+        reject(new Error(message.type === 'error' ? message.error : 'Unexpected scoring file parser response'));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Scoring file parser crashed'));
+    };
+
+    const request: GenotypeWorkerRequest = { type: 'pgs-scoring-file', file };
+    worker.postMessage(request);
+  });
+}
+
+// Figures for one scored PGS Catalog file
+function PgsScoreSummary({ score, fileName }: { score: PgsScoreResult; fileName: string }) {
+  const { metadata } = score;
+  const overlap = score.variants > 0 ? score.matched / score.variants : 0;
+
+  return (
+    <div className="pgs-score">
+      <p className="genotype-source-name" title={fileName}>
+        <strong>{metadata.pgsId ?? fileName}</strong>
+        {metadata.traitReported && ` · ${metadata.traitReported}`}
+        {metadata.pgsName && ` (${metadata.pgsName})`}
+      </p>
+      <dl className="genotype-qc-stats">
+        <dt>Variant overlap</dt>
+        <dd>
+          {score.matched.toLocaleString()} of {score.variants.toLocaleString()} ({(overlap * 100).toFixed(1)}%)
+        </dd>
+        <dt>Raw score</dt>
+        <dd>{formatScore(score.rawScore)}</dd>
+        <dt>Normalized</dt>
+        <dd title="Raw score divided by the number of alleles scored">{formatScore(score.normalizedScore, 6)} per allele</dd>
+        <dt>Z-score</dt>
+        <dd title="Against the effect allele frequencies in the scoring file, assuming independent variants">
+          {score.zScore === null ? 'No allele frequencies in file' : formatScore(score.zScore, 2)}
+        </dd>
+      </dl>
+      <ul className="genotype-qc-warnings">
+        {score.skippedRows > 0 && (
+          <li>{score.skippedRows.toLocaleString()} rows without a usable effect allele, weight or variant ID were skipped</li>
+        )}
+        {score.notOnChip > 0 && <li>{score.notOnChip.toLocaleString()} variants not on your chip</li>}
+        {score.noCalls > 0 && <li>{score.noCalls.toLocaleString()} no-calls</li>}
+        {score.alleleMismatch > 0 && (
+          <li>{score.alleleMismatch.toLocaleString()} calls that match neither of the variant&apos;s alleles</li>
+        )}
+        {score.matchedByPosition > 0 && <li>{score.matchedByPosition.toLocaleString()} matched by GRCh38 position</li>}
+        {score.flipped > 0 && <li>{score.flipped.toLocaleString()} effect alleles complemented to your data&apos;s strand</li>}
+        {overlap < 0.5 && (
+          <li className="qc-warning">
+            Less than half of the score&apos;s variants were found, so it may not reflect the published score&apos;s performance.
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+// Load a PGS Catalog scoring file and compute it against the loaded genotypes, shown in the menu bar
+export default function PgsScorePanel() {
+  const { genotypeData, positionIndex, mergeTable, chromosomalSex, indelTable } = useGenotype();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scores, setScores] = useState<Array<{ fileName: string; score: PgsScoreResult }>>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDisclaimer, setShowDisclaimer] = useState(false);
+
+  if (!genotypeData) return null;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const scoringFile = await readScoringFileInWorker(file);
+      const score = computePgsScore(genotypeData, scoringFile, { positionIndex, mergeTable, chromosomalSex, indelTable });
+      setScores(previous => [{ fileName: file.name, score }, ...previous]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read scoring file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <details className="genotype-diagnostics pgs-scores">
+      <summary className="stat-item">
+        {scores.length > 0 ? `${scores.length} PGS score${scores.length !== 1 ? 's' : ''}` : 'PGS score'}
+      </summary>
+      <div className="genotype-diagnostics-panel">
+        <DisclaimerModal
+          isOpen={showDisclaimer}
+          onClose={() => setShowDisclaimer(false)}
+          type="result"
+          onAccept={() => {
+            setShowDisclaimer(false);
+            fileInputRef.current?.click();
+          }}
+        />
+        <p>
+          Load a harmonized scoring file from the{" "}
+          <a href="https://www.pgscatalog.org/downloads/" target="_blank" rel="noopener noreferrer">PGS Catalog</a>.
+          It is read and scored in your browser.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.tsv,.gz"
+          onChange={handleFileChange}
+          className="genotype-file-input"
+        />
+        <button
+          className="control-button load"
+          onClick={() => setShowDisclaimer(true)}
+          disabled={isLoading}
+        >
+          {isLoading ? 'Scoring...' : 'Load scoring file'}
+        </button>
+        {error && <p className="pgs-score-error">{error}</p>}
+        {scores.map(({ fileName, score }, index) => (
+          <PgsScoreSummary key={`${fileName}-${index}`} fileName={fileName} score={score} />
+        ))}
+      </div>
+    </details>
+  );
+}
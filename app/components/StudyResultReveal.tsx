@@ -4,21 +4,226 @@ import { useState, useEffect } from "react";
 import { useGenotype } from "./UserDataUpload";
 import { useResults } from "./ResultsContext";
 import { hasMatchingSNPs } from "@/lib/snp-utils";
-import { analyzeStudyClientSide, UserStudyResult } from "@/lib/risk-calculator";
+import { analyzeStudyClientSide, NonMatch, NonMatchReason, UserStudyResult } from "@/lib/risk-calculator";
+import { extractRiskAllele } from "@/lib/indel-resolution";
+import { getComplement, parseRiskAlleleFrequency, STRAND_DECISION_LABELS } from "@/lib/strand-resolution";
+import { AbsoluteRisk, getTraitPrevalence } from "@/lib/absolute-risk";
+import { EffectType, formatEffectScore, isRatioEffect } from "@/lib/effect-classification";
 import DisclaimerModal from "./DisclaimerModal";
 import LLMCommentaryModal from "./LLMCommentaryModal";
 import { SavedResult } from "@/lib/results-manager";
+import { splitGenotype } from "@/lib/genotype-parser";
 import { trackStudyResultReveal } from "@/lib/analytics";
 
 type StudyResultRevealProps = {
   studyId: number;
   snps: string | null;
+  chrId?: string | null;
+  chrPos?: string | null;
+  snpIdCurrent?: string | null;
   traitName: string;
   studyTitle: string;
 };
 
-export default function StudyResultReveal({ studyId, snps, traitName, studyTitle }: StudyResultRevealProps) {
-  const { genotypeData, isUploaded } = useGenotype();
+// What each non-match means for the user, and what they can do about it
+const NON_MATCH_EXPLANATIONS: Record<NonMatchReason, { label: string; explanation: string; nextStep: string }> = {
+  'no-variants': {
+    label: 'No variants listed',
+    explanation: 'The GWAS Catalog entry for this study does not name the variants it tested.',
+    nextStep: 'Look for another study of the same trait.',
+  },
+  'risk-allele-not-reported': {
+    label: 'Risk allele not reported',
+    explanation: 'The study did not report which allele carries the effect (listed as "?" or "NR"), so your genotype can\'t be scored.',
+    nextStep: 'The original publication sometimes gives the allele; otherwise try another study of the same trait.',
+  },
+  'effect-size-missing': {
+    label: 'Effect size missing',
+    explanation: 'The study did not report an odds ratio or beta for this association, so there is nothing to apply to your genotype.',
+    nextStep: 'Try another study of the same trait that reports an effect size.',
+  },
+  'not-on-chip': {
+    label: 'Not on your chip',
+    explanation: 'Your genotyping chip doesn\'t test this variant, and no variant at the same position was found.',
+    nextStep: 'Adding a file from a different chip or vendor can fill gaps in coverage.',
+  },
+  'no-call': {
+    label: 'No-call in your file',
+    explanation: 'Your chip tests this variant, but the lab couldn\'t read it for your sample (shown as "--").',
+    nextStep: 'A file from another chip or vendor may have a call for it.',
+  },
+  'unresolved-indel': {
+    label: 'Indel call can\'t be compared',
+    explanation: 'Your file reports this variant as an insertion/deletion (I/D) call, and there is no allele reference entry to compare it with the study\'s risk allele.',
+    nextStep: 'Installing the indel allele reference (see the README) lets these calls be scored.',
+  },
+};
+
+// Betas are shown as a shift in the trait's unit, not as a multiplier
+function formatRiskScore(score: number, level: string, effectType?: EffectType, unit?: string | null): string {
+  if (level === 'neutral') return isRatioEffect(effectType) ? '1.0x' : 'baseline';
+  return formatEffectScore(score, effectType, unit);
+}
+
+// A score on its own, with the level its value implies
+function formatScore(score: number, effectType?: EffectType, unit?: string | null): string {
+  const noEffect = isRatioEffect(effectType) ? 1 : 0;
+  return formatRiskScore(score, score === noEffect ? 'neutral' : score > noEffect ? 'increased' : 'decreased', effectType, unit);
+}
+
+// The result's score at the bounds of the study's confidence interval
+function ScoreRangeNote({ result }: { result: UserStudyResult }) {
+  const { scoreRange, crossesNull, effectType, effectUnit } = result;
+  // Non-carriers sit at the reference whatever the effect size; only the caveat applies
+  const hasSpread = !!scoreRange && scoreRange.lower !== scoreRange.upper;
+  if (!scoreRange || (!hasSpread && !crossesNull)) return null;
+
+  const noEffect = isRatioEffect(effectType) ? '1.0' : '0';
+  return (
+    <p
+      className={`score-range ${crossesNull ? 'crosses-null' : ''}`}
+      title={`Your score recomputed at the lower and upper bounds of the study's 95% confidence interval (${result.confidenceInterval}).${crossesNull ? ` The interval includes ${noEffect}, meaning no effect can't be ruled out.` : ''}`}
+    >
+      {hasSpread
+        ? `95% CI: ${formatScore(scoreRange.lower, effectType, effectUnit)} to ${formatScore(scoreRange.upper, effectType, effectUnit)}`
+        : 'Study\'s 95% CI'}
+      {crossesNull && ` · includes no effect (${noEffect})`}
+    </p>
+  );
+}
+
+function formatPercent(risk: number): string {
+  return `${(risk * 100).toFixed(risk < 0.1 ? 1 : 0)}%`;
+}
+
+// Odds ratio results as an estimated lifetime risk next to the population baseline
+function AbsoluteRiskNote({ absoluteRisk }: { absoluteRisk?: AbsoluteRisk }) {
+  if (!absoluteRisk) {
+    return (
+      <p
+        className="absolute-risk unknown"
+        title="No baseline prevalence is known for this trait (or it is sex-specific and doesn't match your inferred sex), so the odds ratio can't be converted to a probability."
+      >
+        Relative odds, not a chance of developing the trait
+      </p>
+    );
+  }
+
+  const calibration = absoluteRisk.calibration === 'genotype-frequencies'
+    ? 'Calibrated so the average over genotype frequencies in the study population matches the prevalence.'
+    : 'Assumes people without the risk allele have the population prevalence.';
+
+  return (
+    <p
+      className="absolute-risk"
+      title={`Approximate lifetime risk. Baseline: ${absoluteRisk.source || absoluteRisk.trait}. ${calibration}`}
+    >
+      ≈{formatPercent(absoluteRisk.absoluteRisk)} estimated lifetime risk
+      <span className="absolute-risk-baseline"> vs. {formatPercent(absoluteRisk.baselineRisk)} average</span>
+    </p>
+  );
+}
+
+function formatCopies(count: number): string {
+  return `${count} cop${count === 1 ? 'y' : 'ies'}`;
+}
+
+// Haplotype and interaction results list each SNP's risk allele copies: the study's
+// estimate belongs to the combination, not to any one SNP. Results saved by earlier
+// versions may instead combine per-SNP scores, shown with the range a single SNP gives.
+function MatchBreakdown({ result }: { result: UserStudyResult }) {
+  const { aggregate, allMatches, effectType, effectUnit } = result;
+  if (!aggregate || !allMatches || (aggregate.matchCount < 2 && !aggregate.partial)) return null;
+
+  if (aggregate.scoredAs === 'combination') {
+    const scored = allMatches.find(match => match.snp === aggregate.scoredSnp);
+    const notation = result.riskAlleleNotation ?? 'combination';
+    const missingSnps = aggregate.missingSnps ?? [];
+    return (
+      <details className="match-breakdown" open={aggregate.partial}>
+        <summary>
+          Scored as a {notation} of {aggregate.matchCount + missingSnps.length} SNPs
+          {aggregate.partial && ` (${aggregate.matchCount} read from your file)`}
+        </summary>
+        <ul>
+          {allMatches.map(match => (
+            <li key={match.snp}>
+              <code>{match.snp}</code> {match.genotype} vs {match.riskAllele}: {formatCopies(match.riskAlleleCount)}
+            </li>
+          ))}
+          {missingSnps.map(snp => (
+            <li key={snp}>
+              <code>{snp}</code> not read from your file
+            </li>
+          ))}
+        </ul>
+        <p className="match-breakdown-caveat">
+          The study reports one estimate for the {notation} as a whole, so it was applied
+          once{scored ? `, for the ${formatCopies(scored.riskAlleleCount)} every SNP carries (limited by ${scored.snp})` : ''}.
+          Genotypes don&apos;t show whether these alleles sit on the same chromosome, so this can overstate the effect.
+        </p>
+        {aggregate.partial && (
+          <p className="match-breakdown-caveat">
+            Only part of the {notation} was observed: {missingSnps.join(', ')} {missingSnps.length === 1 ? 'is' : 'are'} missing
+            or not called in your file. The score assumes {missingSnps.length === 1 ? 'it carries its' : 'they carry their'} risk
+            allele, so it may not apply to you at all.
+          </p>
+        )}
+      </details>
+    );
+  }
+
+  return (
+    <details className="match-breakdown">
+      <summary>Combined from {aggregate.matchCount} SNPs</summary>
+      <ul>
+        {allMatches.map(match => (
+          <li key={match.snp}>
+            <code>{match.snp}</code> {match.genotype} vs {match.riskAllele}: {formatRiskScore(match.score, match.level, effectType, effectUnit)}
+          </li>
+        ))}
+      </ul>
+      <p>
+        Single-SNP range: {formatScore(aggregate.best.score, effectType, effectUnit)} ({aggregate.best.snp}) to {formatScore(aggregate.worst.score, effectType, effectUnit)} ({aggregate.worst.snp}).
+      </p>
+      <p className="match-breakdown-caveat">
+        {effectType === 'beta' ? 'Effects were added' : effectType === 'HR' ? 'Hazard ratios were multiplied' : 'Odds ratios were multiplied'} as if each SNP were inherited independently. SNPs close together are often inherited together, so the combined score can overstate the effect.
+      </p>
+    </details>
+  );
+}
+
+// Multi-SNP associations report one effect for the haplotype or interaction as a whole
+function describeCombination(result: UserStudyResult): string {
+  const kind = result.riskAlleleNotation === 'interaction' ? 'an interaction between' : 'a haplotype of';
+  const alleles = (result.allMatches ?? []).map(match => `${match.snp}-${match.riskAllele} (you: ${match.genotype})`).join(', ');
+  const missing = result.aggregate?.partial
+    ? ` ${result.aggregate.missingSnps?.join(', ')} couldn't be read from your file, so the combination was only partly observed.`
+    : '';
+  return `This study reports ${kind} several SNPs, with one estimate for the combination. Each SNP was compared with its own risk allele: ${alleles}. The score applies that estimate once, for the risk allele copies every SNP carries; the genotype shown is for ${result.matchedSnp}, the SNP that limits it.${missing}`;
+}
+
+function NonMatchExplanation({ nonMatch, hasIndelReference }: { nonMatch: NonMatch; hasIndelReference: boolean }) {
+  const { label, explanation, nextStep } = NON_MATCH_EXPLANATIONS[nonMatch.reason];
+  const variants = nonMatch.snps && nonMatch.snps.length > 0 ? ` (${nonMatch.snps.join(', ')})` : '';
+
+  return (
+    <details className="user-result no-match non-match-explanation">
+      <summary>{label}</summary>
+      <p>{explanation}{variants}</p>
+      {nonMatch.reason === 'unresolved-indel' && !hasIndelReference && (
+        <p>
+          No indel allele reference is installed (the app ships an empty one), so I/D calls are only scored
+          against risk alleles written as a deletion or insertion (&quot;-&quot;, DEL or INS), not as a sequence.
+        </p>
+      )}
+      <p className="non-match-next-step">{nextStep}</p>
+    </details>
+  );
+}
+
+export default function StudyResultReveal({ studyId, snps, chrId = null, chrPos = null, snpIdCurrent = null, traitName, studyTitle }: StudyResultRevealProps) {
+  const { genotypeData, positionIndex, mergeTable, chromosomalSex, indelTable, alleleTable, prevalenceTable, isUploaded } = useGenotype();
   const { addResult, hasResult, getResult, savedResults } = useResults();
   const [result, setResult] = useState<UserStudyResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -26,6 +231,8 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
   const [error, setError] = useState<string | null>(null);
   const [showDisclaimer, setShowDisclaimer] = useState(false);
   const [showCommentary, setShowCommentary] = useState(false);
+  // The shipped indel reference is header-only until the full table is generated
+  const hasIndelReference = !!indelTable && indelTable.size > 0;
 
   // Check if we already have a saved result
   useEffect(() => {
@@ -40,6 +247,15 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
           riskScore: savedResult.riskScore,
           riskLevel: savedResult.riskLevel,
           matchedSnp: savedResult.matchedSnp,
+          effectType: savedResult.effectType,
+          effectUnit: savedResult.effectUnit,
+          confidenceInterval: savedResult.confidenceInterval,
+          scoreRange: savedResult.scoreRange,
+          crossesNull: savedResult.crossesNull,
+          allMatches: savedResult.matches,
+          aggregate: savedResult.aggregate,
+          absoluteRisk: savedResult.absoluteRisk,
+          genotypeFrequency: savedResult.genotypeFrequency,
         });
         setIsRevealed(true);
       }
@@ -79,6 +295,13 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
 
       const data = await response.json();
 
+      // The study row itself can't be scored - explain why instead of failing
+      if (data.reason) {
+        setResult({ hasMatch: false, nonMatch: { reason: data.reason } });
+        setIsRevealed(true);
+        return;
+      }
+
       if (!response.ok || !data.success) {
         throw new Error(data.error || 'Failed to load study data');
       }
@@ -91,7 +314,23 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
         data.study.effectSize,
         data.study.gwasId,
         data.study.effectType || 'OR',
-        data.study.confidenceInterval
+        data.study.confidenceInterval,
+        {
+          lookup: {
+            positionIndex,
+            chrId: data.study.chrId ?? null,
+            chrPos: data.study.chrPos ?? null,
+            mergeTable,
+            snpIdCurrent: data.study.snpIdCurrent ?? null,
+          },
+          chromosomalSex,
+          indelTable,
+          alleleTable,
+          riskAlleleFrequency: parseRiskAlleleFrequency(data.study.riskAlleleFrequency),
+          prevalence: getTraitPrevalence(prevalenceTable, data.study.mappedTraitUri, chromosomalSex),
+          effectDirection: data.study.effectDirection ?? null,
+          effectUnit: data.study.effectUnit ?? null,
+        }
       );
 
       setResult(analysisResult);
@@ -117,6 +356,15 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
           riskScore: analysisResult.riskScore!,
           riskLevel: analysisResult.riskLevel!,
           matchedSnp: analysisResult.matchedSnp!,
+          effectType: analysisResult.effectType,
+          effectUnit: analysisResult.effectUnit,
+          confidenceInterval: analysisResult.confidenceInterval,
+          scoreRange: analysisResult.scoreRange,
+          crossesNull: analysisResult.crossesNull,
+          matches: analysisResult.allMatches,
+          aggregate: analysisResult.aggregate,
+          absoluteRisk: analysisResult.absoluteRisk,
+          genotypeFrequency: analysisResult.genotypeFrequency,
           analysisDate: new Date().toISOString(),
         };
         addResult(savedResult);
@@ -128,34 +376,33 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
     }
   };
 
-  const formatRiskScore = (score: number, level: string, effectType?: string) => {
-    if (level === 'neutral') return effectType === 'beta' ? 'baseline' : '1.0x';
-    if (effectType === 'beta') {
-      // For beta coefficients, show the effect size directly, not as a multiplier
-      return `β=${score > 1 ? '+' : ''}${(score - 1).toFixed(3)}`;
-    }
-    return `${score.toFixed(2)}x`;
-  };
-
   const generateTooltip = (result: UserStudyResult) => {
     if (!result.hasMatch) return "No genetic data available for this study's variants.";
 
     const riskScore = result.riskScore!;
     const riskDirection = result.riskLevel!;
     const userGenotype = result.userGenotype!;
-    const riskAllele = result.riskAllele!.split('-').pop() || '';
+    // Compare on the forward strand, as the score did
+    const reportedRiskAllele = extractRiskAllele(result.riskAllele!);
+    const riskAllele = result.strand === 'flipped' ? getComplement(reportedRiskAllele) : reportedRiskAllele;
     const effectSize = result.effectSize || '';
     const effectType = result.effectType || 'OR';
     const confidenceInterval = result.confidenceInterval;
-    const userAlleles = userGenotype.split('');
-    const riskAlleleCount = userAlleles.filter(allele => allele === riskAllele).length;
-    const isOddsRatio = effectType === 'OR';
+    const userAlleles = splitGenotype(userGenotype);
+    const isHemizygous = result.ploidy === 1;
+    const riskAlleleCount = Math.min(result.ploidy ?? 2, userAlleles.filter(allele => allele === riskAllele).length);
+    const isRatio = isRatioEffect(effectType);
+    // Hazard ratios compare the rate of the event over time rather than its odds
+    const ratioTerm = effectType === 'HR' ? 'hazard' : 'odds';
 
     let baseExplanation = `Your genotype is ${userGenotype}. `;
+    if (result.strand === 'flipped' || result.strand === 'ambiguous') {
+      baseExplanation += `${STRAND_DECISION_LABELS[result.strand]}. `;
+    }
 
-    // Determine if this is a protective variant (OR < 1)
+    // Determine if this is a protective variant (OR/HR < 1)
     const rawEffect = parseFloat(effectSize);
-    const isProtective = isOddsRatio && rawEffect < 1;
+    const isProtective = isRatio && rawEffect < 1;
 
     if (riskAlleleCount === 0) {
       if (isProtective) {
@@ -163,6 +410,9 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
       } else {
         baseExplanation += `You don't carry the risk variant (${riskAllele}), which means this genetic factor doesn't increase your risk for this trait. `;
       }
+    } else if (isHemizygous) {
+      const variantKind = isProtective ? 'protective' : 'risk';
+      baseExplanation += `You carry the ${variantKind} variant (${riskAllele}) on your only copy of this chromosome, so it counts once. `;
     } else if (riskAlleleCount === 1) {
       if (isProtective) {
         baseExplanation += `You carry one copy of the protective variant (${riskAllele}), meaning you inherited it from one parent. `;
@@ -179,36 +429,57 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
 
     if (riskDirection === 'neutral') {
       baseExplanation += "This genetic variant appears to have no significant effect on your risk.";
-    } else if (isOddsRatio) {
-      // For odds ratios, we can calculate relative risk changes (but baseline risk matters)
+    } else if (isRatio) {
+      // For odds and hazard ratios, we can calculate relative risk changes (but baseline risk matters)
       if (riskDirection === 'increased') {
         const percentChange = ((riskScore - 1) * 100).toFixed(0);
 
         if (isProtective && riskAlleleCount === 0) {
           // Non-carrier of protective allele
-          baseExplanation += `Without this protective variant, your odds are ${percentChange}% higher relative to those who carry it. `;
+          baseExplanation += `Without this protective variant, your ${ratioTerm} ${effectType === 'HR' ? 'is' : 'are'} ${percentChange}% higher relative to those who carry it. `;
           baseExplanation += `This means you lack a genetic advantage, though lifestyle and other factors remain important. `;
         } else if (riskScore < 1.5) {
-          baseExplanation += `This variant shows a ${percentChange}% relative increase in odds. This is a small effect that may be offset by lifestyle and other genetic factors. `;
+          baseExplanation += `This variant shows a ${percentChange}% relative increase in ${ratioTerm}. This is a small effect that may be offset by lifestyle and other genetic factors. `;
         } else if (riskScore < 2.0) {
-          baseExplanation += `This variant shows a ${percentChange}% relative increase in odds. Combined with other factors, this could be meaningful for prevention strategies. `;
+          baseExplanation += `This variant shows a ${percentChange}% relative increase in ${ratioTerm}. Combined with other factors, this could be meaningful for prevention strategies. `;
         } else {
-          baseExplanation += `This variant shows a ${percentChange}% relative increase in odds. Consider discussing this with a healthcare provider, especially if you have other risk factors. `;
+          baseExplanation += `This variant shows a ${percentChange}% relative increase in ${ratioTerm}. Consider discussing this with a healthcare provider, especially if you have other risk factors. `;
         }
-        baseExplanation += `Important: this percentage reflects relative odds, not absolute risk. The actual impact depends on the baseline population risk (not shown here), confidence intervals, and other genetic/environmental factors.`;
+        baseExplanation += `Important: this percentage reflects relative ${ratioTerm}, not absolute risk. The actual impact depends on the baseline population risk${result.absoluteRisk ? '' : ' (not known here)'}, confidence intervals, and other genetic/environmental factors.`;
       } else if (riskDirection === 'decreased') {
         const percentChange = ((1 - riskScore) * 100).toFixed(0);
-        baseExplanation += `This protective variant reduces your odds by ${percentChange}% relative to non-carriers. This is a favorable genetic factor. Important: this reflects relative odds, not absolute risk reduction. The actual impact depends on baseline population risk and other factors.`;
+        baseExplanation += `This protective variant reduces your ${ratioTerm} by ${percentChange}% relative to non-carriers. This is a favorable genetic factor. Important: this reflects relative ${ratioTerm}, not absolute risk reduction. The actual impact depends on baseline population risk and other factors.`;
       }
     } else {
-      // For beta coefficients, we cannot convert to percentage risk - describe the effect directionally
+      // For beta coefficients, we cannot convert to percentage risk - describe the shift in the trait's unit
+      const shift = formatEffectScore(riskScore, effectType, result.effectUnit);
+      const unitNote = result.effectUnit
+        ? ''
+        : ' The study did not name the unit, so the size of this shift depends on how the trait was measured.';
       if (riskDirection === 'increased') {
-        baseExplanation += `This genetic variant is associated with higher values for this trait. The effect size indicates a per-allele increase, though this does not directly translate to a percentage risk change. Clinical significance depends on the trait's measurement scale and other factors.`;
+        baseExplanation += `This genetic variant is associated with higher values for this trait: ${shift} on average compared with non-carriers. This is a shift in the measurement, not a percentage risk change.${unitNote}`;
       } else if (riskDirection === 'decreased') {
-        baseExplanation += `This genetic variant is associated with lower values for this trait. The effect size indicates a per-allele decrease, though this does not directly translate to a percentage risk change. Clinical significance depends on the trait's measurement scale and other factors.`;
+        baseExplanation += `This genetic variant is associated with lower values for this trait: ${shift} on average compared with non-carriers. This is a shift in the measurement, not a percentage risk change.${unitNote}`;
       }
     }
 
+    if (result.scoreRange) {
+      baseExplanation += ` Across the study's 95% confidence interval, your score ranges from ${formatScore(result.scoreRange.lower, result.effectType, result.effectUnit)} to ${formatScore(result.scoreRange.upper, result.effectType, result.effectUnit)}${result.crossesNull ? ', and the interval includes no effect, so this association is uncertain' : ''}.`;
+    }
+
+    if (result.absoluteRisk) {
+      const { absoluteRisk, baselineRisk } = result.absoluteRisk;
+      baseExplanation += ` About ${formatPercent(baselineRisk)} of people develop ${result.absoluteRisk.trait.toLowerCase()} over their lifetime; for your genotype the estimate is about ${formatPercent(absoluteRisk)}.`;
+    }
+
+    if (result.aggregate?.partial) {
+      baseExplanation += ` The study's estimate covers ${result.aggregate.matchCount + (result.aggregate.missingSnps?.length ?? 0)} SNPs together, but only ${result.aggregate.matchCount} could be read from your file, so this result assumes the rest carry their risk alleles; see the breakdown below.`;
+    } else if (result.aggregate && result.aggregate.matchCount > 1) {
+      baseExplanation += result.aggregate.scoredAs === 'combination'
+        ? ` The study's estimate covers all ${result.aggregate.matchCount} SNPs together and was applied once; see the breakdown below.`
+        : ` This score combines ${result.aggregate.matchCount} SNPs as if they were inherited independently; see the breakdown below.`;
+    }
+
     baseExplanation += ` Remember that genetics is just one piece of the puzzle - lifestyle, environment, and other genetic variants all play important roles.`;
 
     return baseExplanation;
@@ -216,6 +487,9 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
 
   if (isRevealed && result) {
     if (!result.hasMatch) {
+      if (result.nonMatch) {
+        return <NonMatchExplanation nonMatch={result.nonMatch} hasIndelReference={hasIndelReference} />;
+      }
       return (
         <div className="user-result no-match">
           No match found—your DNA is unique here
@@ -242,14 +516,51 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
           >
             <div className="user-genotype">
               Your genotype: <span className="genotype-value">{result.userGenotype}</span>
+              {result.matchMethod === 'merged-rsid' && (
+                <span
+                  className="match-method"
+                  title={`dbSNP merged ${result.matchedSnp} and ${result.matchedId}; your file lists it as ${result.matchedId}.`}
+                >
+                  via {result.matchedId}
+                </span>
+              )}
+              {result.matchMethod === 'position' && (
+                <span
+                  className="match-method"
+                  title={`Your file doesn't list ${result.matchedSnp} by name; this genotype was found at the same chromosome position.`}
+                >
+                  matched by position
+                </span>
+              )}
+              {result.riskAlleleNotation && result.riskAlleleNotation !== 'single' && (
+                <span className="match-method" title={describeCombination(result)}>
+                  {result.aggregate?.partial ? `partial ${result.riskAlleleNotation}` : result.riskAlleleNotation}
+                </span>
+              )}
+              {(result.strand === 'flipped' || result.strand === 'ambiguous') && (
+                <span className={`match-method strand-${result.strand}`} title={STRAND_DECISION_LABELS[result.strand]}>
+                  {result.strand === 'flipped' ? 'strand flipped' : 'strand ambiguous'}
+                </span>
+              )}
             </div>
             <div className={`risk-score risk-${result.riskLevel}`}>
-              {formatRiskScore(result.riskScore!, result.riskLevel!, result.effectType)}
+              {formatRiskScore(result.riskScore!, result.riskLevel!, result.effectType, result.effectUnit)}
               <span className="risk-label">
                 {result.riskLevel === 'increased' ? '↑' : result.riskLevel === 'decreased' ? '↓' : '→'}
               </span>
             </div>
           </div>
+          <ScoreRangeNote result={result} />
+          {(result.effectType ?? 'OR') === 'OR' && <AbsoluteRiskNote absoluteRisk={result.absoluteRisk} />}
+          {result.genotypeFrequency !== undefined && (
+            <p
+              className="genotype-frequency"
+              title="Expected from the study's risk allele frequency under Hardy-Weinberg equilibrium. The study population's ancestry may differ from yours."
+            >
+              About {formatPercent(result.genotypeFrequency)} of people in the study population share your genotype
+            </p>
+          )}
+          <MatchBreakdown result={result} />
           <button
             className="commentary-button"
             onClick={() => setShowCommentary(true)}
@@ -267,12 +578,8 @@ export default function StudyResultReveal({ studyId, snps, traitName, studyTitle
     return null; // No data uploaded yet - don't show anything
   }
 
-  if (!hasMatchingSNPs(genotypeData, snps)) {
-    return (
-      <div className="user-result no-match" title="Your genetic data file does not contain the SNP variants tested in this study.">
-        No data
-      </div>
-    );
+  if (!hasMatchingSNPs(genotypeData, snps, { positionIndex, chrId, chrPos, mergeTable, snpIdCurrent })) {
+    return <NonMatchExplanation nonMatch={{ reason: 'not-on-chip' }} hasIndelReference={hasIndelReference} />;
   }
 
   return (
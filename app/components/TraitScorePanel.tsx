@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { useGenotype } from "./UserDataUpload";
+import DisclaimerModal from "./DisclaimerModal";
+import {
+  computePolygenicScore,
+  PolygenicExclusionReason,
+  PolygenicMissingReason,
+  PolygenicScore,
+  TraitAssociation,
+} from "@/lib/polygenic-score";
+import { formatEffectScore } from "@/lib/effect-classification";
+
+const MISSING_LABELS: Record<PolygenicMissingReason, string> = {
+  'not-on-chip': 'not on your chip',
+  'no-call': 'no-calls',
+  'unresolved-indel': 'indel calls without an allele reference',
+};
+
+const EXCLUSION_LABELS: Record<PolygenicExclusionReason, string> = {
+  'no-variants': 'no variant listed',
+  'risk-allele-not-reported': 'risk allele not reported',
+  'effect-size-missing': 'no usable effect size',
+  'multi-snp': 'haplotype or interaction effects',
+  'other-scale': 'reported on a different effect scale or unit',
+  duplicate: 'variant already counted from a more significant study',
+};
+
+// Contributing variants listed in the breakdown
+const MAX_LISTED_VARIANTS = 25;
+
+function formatEffect(value: number, { scale, unit }: PolygenicScore): string {
+  if (scale === 'log-odds') {
+    return `${Math.exp(value).toFixed(2)}x odds`;
+  }
+  if (scale === 'log-hazard') {
+    return `${Math.exp(value).toFixed(2)}x hazard`;
+  }
+  return formatEffectScore(value, 'beta', unit);
+}
+
+function countBy<T extends string>(items: Array<{ reason: T }>): Array<[T, number]> {
+  const counts = new Map<T, number>();
+  items.forEach(({ reason }) => counts.set(reason, (counts.get(reason) ?? 0) + 1));
+  return Array.from(counts.entries());
+}
+
+function ScoreSummary({ score }: { score: PolygenicScore }) {
+  const { scale, contributing, missing, excluded, centeredScore } = score;
+  const considered = contributing.length + missing.length;
+  const exclusions = (Object.entries(excluded) as Array<[PolygenicExclusionReason, number]>).filter(([, count]) => count > 0);
+  const level = centeredScore === null || centeredScore === 0 ? 'neutral' : centeredScore > 0 ? 'increased' : 'decreased';
+
+  if (contributing.length === 0) {
+    return (
+      <p className="trait-score-empty">
+        None of the {considered.toLocaleString()} scorable variants for this trait were read from your data
+        {missing.length > 0 && ` (${countBy(missing).map(([reason, count]) => `${count} ${MISSING_LABELS[reason]}`).join(', ')})`}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="user-result trait-score-result">
+      <p className={`risk-score risk-${level}`}>
+        {centeredScore !== null
+          ? `${formatEffect(centeredScore, score)} vs. an average carrier`
+          : `${formatEffect(score.score, score)} vs. carrying no risk alleles`}
+      </p>
+      {centeredScore !== null && (
+        <p>
+          {formatEffect(score.score, score)} vs. carrying no risk alleles. The average is estimated
+          from the {score.centeredVariants.toLocaleString()} variants with a reported risk allele frequency.
+        </p>
+      )}
+      {score.percentile !== null && (
+        <p title="Where your score falls among genotypes expected from the study populations' risk allele frequencies (Hardy-Weinberg), assuming independent variants">
+          Estimated percentile: <strong>{Math.round(score.percentile)}</strong>, higher than about {Math.round(score.percentile)}% of
+          people in the study populations.
+        </p>
+      )}
+      <p>
+        <strong>{contributing.length.toLocaleString()}</strong> of {considered.toLocaleString()} variants contributed
+        {missing.length > 0 && `; ${missing.length.toLocaleString()} missing (${countBy(missing).map(([reason, count]) => `${count} ${MISSING_LABELS[reason]}`).join(', ')})`}.
+      </p>
+      {exclusions.length > 0 && (
+        <p className="trait-score-excluded">
+          Left out of {score.associations.toLocaleString()} associations: {exclusions.map(([reason, count]) => `${count} ${EXCLUSION_LABELS[reason]}`).join(', ')}.
+        </p>
+      )}
+      {score.truncated && (
+        <p className="trait-score-excluded">This trait has more associations than can be loaded at once; only the most significant ones were scored.</p>
+      )}
+
+      <details className="match-breakdown">
+        <summary>Largest contributions</summary>
+        <ul>
+          {contributing.slice(0, MAX_LISTED_VARIANTS).map(variant => (
+            <li key={variant.snp}>
+              <code>{variant.snp}</code> {variant.genotype} vs {variant.riskAllele}: {variant.riskAlleleCount} × {formatEffect(variant.weight, score)}
+            </li>
+          ))}
+        </ul>
+        {contributing.length > MAX_LISTED_VARIANTS && (
+          <p>and {(contributing.length - MAX_LISTED_VARIANTS).toLocaleString()} more.</p>
+        )}
+      </details>
+      <p className="match-breakdown-caveat">
+        {scale === 'log-odds' ? 'Log odds ratios were added' : scale === 'log-hazard' ? 'Log hazard ratios were added' : 'Betas were added'} across studies of different
+        populations and designs, as if every variant were inherited independently. This is a rough tendency, not a
+        validated polygenic score.
+      </p>
+    </div>
+  );
+}
+
+// Combined score over every catalog association for the selected trait
+export default function TraitScorePanel({ trait }: { trait: string }) {
+  const { genotypeData, positionIndex, mergeTable, chromosomalSex, indelTable, alleleTable } = useGenotype();
+  const [score, setScore] = useState<PolygenicScore | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showDisclaimer, setShowDisclaimer] = useState(false);
+
+  if (!genotypeData) return null;
+
+  const calculateScore = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Fetch association metadata only (no user data sent to server)
+      const response = await fetch(`/api/trait-associations?trait=${encodeURIComponent(trait)}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load trait associations');
+      }
+
+      setScore(computePolygenicScore(genotypeData, trait, data.associations as TraitAssociation[], {
+        positionIndex,
+        mergeTable,
+        chromosomalSex,
+        indelTable,
+        alleleTable,
+        truncated: data.truncated,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Score calculation failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <section className="summary trait-score">
+      <DisclaimerModal
+        isOpen={showDisclaimer}
+        onClose={() => setShowDisclaimer(false)}
+        type="result"
+        onAccept={() => {
+          setShowDisclaimer(false);
+          calculateScore();
+        }}
+      />
+      <div className="trait-score-header">
+        <p>
+          <strong>Polygenic score for {trait}</strong>: combines every catalog association for this trait with your genotype.
+        </p>
+        {!score && (
+          <button className="reveal-button" onClick={() => setShowDisclaimer(true)} disabled={isLoading}>
+            {isLoading ? 'Calculating...' : 'Calculate my score'}
+          </button>
+        )}
+      </div>
+      {error && <p className="trait-score-excluded">{error}</p>}
+      {score && <ScoreSummary score={score} />}
+    </section>
+  );
+}
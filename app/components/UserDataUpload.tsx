@@ -1,8 +1,31 @@
 "use client";
 
-import { useState, useRef, createContext, useContext } from "react";
-import { GenotypeData, detectAndParseGenotypeFile, validateFileSize, validateFileFormat } from "@/lib/genotype-parser";
+import { useState, useRef, useEffect, createContext, useContext } from "react";
+import {
+  ChromosomalSex,
+  GenotypeChipDetection,
+  GenotypeFormatDetection,
+  GenomeBuildDetection,
+  LiftoverSummary,
+  SexInference,
+  ParseDiagnostics,
+  RejectionReason,
+  REJECTION_REASON_LABELS,
+  validateFileSize,
+  validateFileFormat,
+  MAX_UPLOAD_SIZE_MB,
+} from "@/lib/genotype-parser";
+import { PositionIndex } from "@/lib/snp-utils";
+import { addGenotypeSource, ConcordanceReport, createGenotypeProfile, GenotypeProfile, getSourceIndexes } from "@/lib/genotype-merge";
 import { calculateFileHash } from "@/lib/file-hash";
+import { combineSexInferences } from "@/lib/sex-inference";
+import { GenotypeQCReport } from "@/lib/genotype-qc";
+import { IndelReferenceTable, loadIndelReferenceTable } from "@/lib/indel-resolution";
+import { loadSnpAlleleTable, SnpAlleleTable } from "@/lib/strand-resolution";
+import { loadTraitPrevalenceTable, TraitPrevalenceTable } from "@/lib/absolute-risk";
+import { fetchRsidMergeTable, RsidMergeTable } from "@/lib/rsid-merges";
+import { buildPlink, buildVCF, downloadExportFiles, GenotypeExport, GenotypeExportFormat } from "@/lib/genotype-export";
+import type { GenotypeFileOutcome, GenotypeFileProgress, GenotypeWorkerMessage, GenotypeWorkerRequest } from "@/lib/genotype-stream";
 import {
   trackFileUploadStart,
   trackFileUploadSuccess,
@@ -12,72 +35,256 @@ import {
 
 type GenotypeContextType = {
   genotypeData: Map<string, string> | null;
-  uploadGenotype: (file: File) => Promise<void>;
+  positionIndex: PositionIndex | null; // chromosome:GRCh38 position -> genotype
+  mergeTable: RsidMergeTable | null; // Catalog rsID merge history, loaded once data is uploaded
+  indelTable: IndelReferenceTable | null; // I/D allele reference, when installed
+  alleleTable: SnpAlleleTable | null; // Forward-strand SNP alleles, when installed
+  prevalenceTable: TraitPrevalenceTable | null; // Trait prevalence for absolute risk, when installed
+  uploadGenotype: (file: File, archiveMember?: string) => Promise<void>;
+  addGenotypeFile: (file: File, archiveMember?: string) => Promise<void>; // Merge another file for the same person
+  cancelUpload: () => void;
   clearGenotype: () => void;
+  exportGenotype: (format: GenotypeExportFormat) => GenotypeExport | null; // Download the merged genotype as VCF or PLINK
   isUploaded: boolean;
   isLoading: boolean;
+  uploadProgress: number | null; // 0-100 while a file is being read
   error: string | null;
   setOnDataLoadedCallback: (callback: (() => void) | null) => void;
-  fileHash: string | null;
+  fileHash: string | null; // Combined hash when several files are loaded
   originalFileName: string | null;
+  sources: GenotypeSource[]; // Loaded files, in upload order
+  concordance: ConcordanceReport | null; // Agreement between files on shared SNPs
+  getVariantSources: (rsid: string) => GenotypeSource[]; // Files that called a variant
+  chromosomalSex: ChromosomalSex; // Inferred from X heterozygosity and Y calls
+  archiveMembers: string[] | null;
+  selectArchiveMember: (memberName: string) => Promise<void>;
+  cancelArchiveSelection: () => void;
+};
+
+type ParseSummary = {
+  totalVariants: number; // Data rows in the file
+  validVariants: number; // Rows that were loaded
+  diagnostics: ParseDiagnostics;
+  liftover: LiftoverSummary | null;
+};
+
+const GENOME_BUILD_SOURCE_LABELS: Record<GenomeBuildDetection['source'], string> = {
+  header: 'declared in the file header',
+  positions: 'inferred from known SNP positions',
+  'vendor-default': 'assumed from the vendor',
+};
+
+// One uploaded file contributing to the genotype profile
+export type GenotypeSource = {
+  fileName: string;
+  fileHash: string;
+  sampleName: string | null;
+  formatDetection: GenotypeFormatDetection | null;
+  genomeBuild: GenomeBuildDetection | null;
+  sexInference: SexInference | null;
+  chip: GenotypeChipDetection | null;
+  qc: GenotypeQCReport | null;
+  parseSummary: ParseSummary;
+};
+
+type ArchiveSelection = {
+  file: File;
+  members: string[];
+  append: boolean;
 };
 
+// Parse a file in the genotype parser Web Worker, resolving with its outcome.
+// The returned cancel function terminates the worker and resolves with null.
+function runGenotypeWorker(
+  request: Extract<GenotypeWorkerRequest, { type: 'genotype-file' }>,
+  onProgress: (progress: GenotypeFileProgress) => void
+): { promise: Promise<GenotypeFileOutcome | null>; cancel: () => void } {
+  const worker = new Worker(new URL("../../lib/genotype-parser.worker.ts", import.meta.url));
+  let settle: (outcome: GenotypeFileOutcome | null) => void = () => {};
+
+  const promise = new Promise<GenotypeFileOutcome | null>((resolve, reject) => {
+    settle = resolve;
+
+    worker.onmessage = (event: MessageEvent<GenotypeWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'complete') {
+        resolve(message.outcome);
+      } else {
+        reject(new Error(message.type === 'error' ? message.error : 'Unexpected genotype parser response'));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Genotype parser crashed'));
+    };
+
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+}
+
 const GenotypeContext = createContext<GenotypeContextType | null>(null);
 
 export function GenotypeProvider({ children }: { children: React.ReactNode }) {
-  const [genotypeData, setGenotypeData] = useState<Map<string, string> | null>(null);
+  const [profile, setProfile] = useState<GenotypeProfile | null>(null);
+  const [sources, setSources] = useState<GenotypeSource[]>([]);
+  const [mergeTable, setMergeTable] = useState<RsidMergeTable | null>(null);
+  const [indelTable, setIndelTable] = useState<IndelReferenceTable | null>(null);
+  const [alleleTable, setAlleleTable] = useState<SnpAlleleTable | null>(null);
+  const [prevalenceTable, setPrevalenceTable] = useState<TraitPrevalenceTable | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [onDataLoaded, setOnDataLoaded] = useState<(() => void) | null>(null);
-  const [fileHash, setFileHash] = useState<string | null>(null);
-  const [originalFileName, setOriginalFileName] = useState<string | null>(null);
+  const [archiveSelection, setArchiveSelection] = useState<ArchiveSelection | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const cancelUploadRef = useRef<(() => void) | null>(null);
+  const genotypeData = profile?.genotypes ?? null;
+
+  // Merge history is catalog data (no user data is sent), needed only once a file is loaded
+  useEffect(() => {
+    if (!genotypeData || mergeTable) return;
+    let active = true;
+    fetchRsidMergeTable()
+      .then((table) => {
+        if (active) setMergeTable(table);
+      })
+      .catch(() => {
+        // Matching still works on exact rsIDs and positions without it
+      });
+    return () => {
+      active = false;
+    };
+  }, [genotypeData, mergeTable]);
+
+  // Static reference file; without it I/D calls only match deletion/insertion risk alleles
+  useEffect(() => {
+    if (!genotypeData || indelTable) return;
+    let active = true;
+    loadIndelReferenceTable().then((table) => {
+      if (active && table) setIndelTable(table);
+    });
+    return () => {
+      active = false;
+    };
+  }, [genotypeData, indelTable]);
 
-  const uploadGenotype = async (file: File) => {
+  // Static reference file; without it risk alleles are used on the strand the catalog reports
+  useEffect(() => {
+    if (!genotypeData || alleleTable) return;
+    let active = true;
+    loadSnpAlleleTable().then((table) => {
+      if (active && table) setAlleleTable(table);
+    });
+    return () => {
+      active = false;
+    };
+  }, [genotypeData, alleleTable]);
+
+  // Static reference file; without it odds ratios are shown as relative odds only
+  useEffect(() => {
+    if (!genotypeData || prevalenceTable) return;
+    let active = true;
+    loadTraitPrevalenceTable().then((table) => {
+      if (active && table) setPrevalenceTable(table);
+    });
+    return () => {
+      active = false;
+    };
+  }, [genotypeData, prevalenceTable]);
+
+  const readGenotypeFile = async (file: File, archiveMember: string | undefined, append: boolean) => {
     const startTime = performance.now();
     const fileExtension = file.name.split('.').pop() || '';
 
     setIsLoading(true);
     setError(null);
+    setArchiveSelection(null);
+    setUploadProgress(0);
 
     // Track upload start
     trackFileUploadStart(file.size, fileExtension);
 
     try {
-      // Validate file size (50MB limit)
-      if (!validateFileSize(file, 50)) {
-        throw new Error('File too large. Maximum size is 50MB.');
+      // Validate file size
+      if (!validateFileSize(file)) {
+        throw new Error(`File too large. Maximum size is ${MAX_UPLOAD_SIZE_MB}MB.`);
       }
 
       // Validate file format
       if (!validateFileFormat(file)) {
-        throw new Error('Invalid file format. Please upload a .txt, .tsv, or .csv file from 23andMe, AncestryDNA, or Monadic DNA.');
+        throw new Error('Invalid file format. Please upload a .txt, .tsv, .csv, .vcf, .gz, or .zip file from 23andMe, AncestryDNA, MyHeritage, FamilyTreeDNA, LivingDNA, Monadic DNA, or a sequencing provider.');
+      }
+
+      // Decompress, hash and parse the file entirely client-side, off the main thread
+      const { promise, cancel } = runGenotypeWorker({ type: 'genotype-file', file, archiveMember }, ({ bytesRead, totalBytes }) => {
+        setUploadProgress(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 0);
+      });
+      cancelUploadRef.current = cancel;
+      const outcome = await promise;
+
+      // Upload was cancelled by the user
+      if (!outcome) {
+        return;
       }
 
-      // Read and parse file entirely client-side
-      const fileContent = await file.text();
-      const hash = calculateFileHash(fileContent);
+      // Archive holds several genotype files - wait for the user to choose one
+      if (outcome.type === 'archive-members') {
+        setArchiveSelection({ file, members: outcome.members, append });
+        return;
+      }
 
-      // Parse the genotype file client-side
-      const parseResult = detectAndParseGenotypeFile(fileContent);
+      const parseResult = outcome.result;
 
       if (!parseResult.success) {
         throw new Error(parseResult.error || 'Failed to parse genotype data');
       }
 
-      // Create a map for quick SNP lookup
-      const genotypeMap = new Map<string, string>();
-      parseResult.data!.forEach((variant: GenotypeData) => {
-        genotypeMap.set(variant.rsid, variant.genotype);
-      });
+      // Merge into the current profile, or start a new one
+      const baseProfile = append && profile ? profile : createGenotypeProfile();
+      const nextProfile = addGenotypeSource(baseProfile, parseResult.data!, parseResult.genomeBuild?.build);
 
       const parseDuration = performance.now() - startTime;
 
       // Track successful upload
-      trackFileUploadSuccess(file.size, genotypeMap.size, parseDuration);
+      trackFileUploadSuccess(file.size, parseResult.data!.length, parseDuration);
+
+      const source: GenotypeSource = {
+        fileName: outcome.memberName ? `${file.name}/${outcome.memberName}` : file.name,
+        // Hash of the decompressed content, so it matches the same data uploaded uncompressed
+        fileHash: outcome.fileHash,
+        // Only worth reporting when the VCF had several samples to choose from
+        sampleName: parseResult.availableSamples && parseResult.availableSamples.length > 1
+          ? parseResult.sampleName ?? null
+          : null,
+        formatDetection: parseResult.detection ?? null,
+        genomeBuild: parseResult.genomeBuild ?? null,
+        sexInference: parseResult.sexInference ?? null,
+        chip: parseResult.chip ?? null,
+        qc: outcome.qc ?? null,
+        parseSummary: {
+          totalVariants: parseResult.totalVariants ?? 0,
+          validVariants: parseResult.validVariants ?? 0,
+          diagnostics: parseResult.diagnostics ?? { rejections: {} },
+          liftover: parseResult.liftover ?? null,
+        },
+      };
 
-      setGenotypeData(genotypeMap);
-      setFileHash(hash);
-      setOriginalFileName(file.name);
+      setProfile(nextProfile);
+      setSources(append && profile ? [...sources, source] : [source]);
 
       // Call the callback if it exists
       if (onDataLoaded) {
@@ -90,31 +297,97 @@ export function GenotypeProvider({ children }: { children: React.ReactNode }) {
       // Track upload error
       trackFileUploadError(errorMessage, file.size);
     } finally {
+      cancelUploadRef.current = null;
       setIsLoading(false);
+      setUploadProgress(null);
     }
   };
 
+  const uploadGenotype = (file: File, archiveMember?: string) => readGenotypeFile(file, archiveMember, false);
+
+  const addGenotypeFile = (file: File, archiveMember?: string) => readGenotypeFile(file, archiveMember, true);
+
+  const cancelUpload = () => {
+    cancelUploadRef.current?.();
+  };
+
+  const selectArchiveMember = async (memberName: string) => {
+    if (!archiveSelection) return;
+    await readGenotypeFile(archiveSelection.file, memberName, archiveSelection.append);
+  };
+
+  const cancelArchiveSelection = () => {
+    setArchiveSelection(null);
+  };
+
   const clearGenotype = () => {
-    setGenotypeData(null);
+    setProfile(null);
+    setSources([]);
     setError(null);
-    setFileHash(null);
-    setOriginalFileName(null);
 
     // Track file cleared
     trackFileCleared();
   };
 
+  const chromosomalSex = combineSexInferences(sources.map(source => source.sexInference));
+
+  const exportGenotype = (format: GenotypeExportFormat): GenotypeExport | null => {
+    if (!profile) return null;
+
+    const options = {
+      sampleName: sources.find(source => source.sampleName)?.sampleName ?? null,
+      chromosomalSex,
+      alleleTable,
+    };
+    const exported = format === 'vcf'
+      ? buildVCF(profile.genotypes, profile.loci, options)
+      : buildPlink(profile.genotypes, profile.loci, options);
+    // Nothing to download; the caller explains why (usually no SNP allele reference for VCF)
+    if (exported.exported > 0) {
+      downloadExportFiles(exported.files);
+    }
+    return exported;
+  };
+
+  // A single file keeps its own hash so saved sessions from before multi-file uploads still match
+  const fileHash = sources.length === 0
+    ? null
+    : sources.length === 1
+      ? sources[0].fileHash
+      : calculateFileHash(sources.map(source => source.fileHash).sort().join(':'));
+
+  const getVariantSources = (rsid: string): GenotypeSource[] => {
+    const mask = profile?.provenance.get(rsid) ?? 0;
+    return getSourceIndexes(mask).map(index => sources[index]).filter(Boolean);
+  };
+
   return (
     <GenotypeContext.Provider value={{
       genotypeData,
+      positionIndex: profile?.positionIndex ?? null,
+      mergeTable,
+      indelTable,
+      alleleTable,
+      prevalenceTable,
       uploadGenotype,
+      addGenotypeFile,
+      cancelUpload,
       clearGenotype,
+      exportGenotype,
       isUploaded: !!genotypeData,
       isLoading,
+      uploadProgress,
       error,
       setOnDataLoadedCallback: setOnDataLoaded,
       fileHash,
-      originalFileName,
+      originalFileName: sources.length > 0 ? sources.map(source => source.fileName).join(' + ') : null,
+      sources,
+      concordance: sources.length > 1 ? profile?.concordance ?? null : null,
+      getVariantSources,
+      chromosomalSex,
+      archiveMembers: archiveSelection?.members ?? null,
+      selectArchiveMember,
+      cancelArchiveSelection,
     }}>
       {children}
     </GenotypeContext.Provider>
@@ -129,40 +402,254 @@ export function useGenotype() {
   return context;
 }
 
+function LiftoverNote({ liftover }: { liftover: LiftoverSummary }) {
+  if (!liftover.chainAvailable) {
+    return (
+      <p className="genotype-diagnostics-note">
+        No {liftover.from} → {liftover.to} chain file is installed, so positions were not converted. Matching by rsID is unaffected.
+      </p>
+    );
+  }
+
+  return (
+    <p>
+      Positions lifted from {liftover.from} to {liftover.to} for {liftover.lifted.toLocaleString()} variants
+      {liftover.unmapped > 0 && ` (${liftover.unmapped.toLocaleString()} have no ${liftover.to} position)`}.
+    </p>
+  );
+}
+
+// Collapsible breakdown of the rows that were skipped while parsing the upload
+function ParseSummaryDetails({ summary }: { summary: ParseSummary }) {
+  const rejections = Object.entries(summary.diagnostics.rejections) as Array<
+    [RejectionReason, NonNullable<ParseDiagnostics['rejections'][RejectionReason]>]
+  >;
+  const skipped = summary.totalVariants - summary.validVariants;
+
+  return (
+    <details className="genotype-diagnostics">
+      <summary>
+        {summary.validVariants.toLocaleString()} of {summary.totalVariants.toLocaleString()} rows loaded
+      </summary>
+      <div className="genotype-diagnostics-panel">
+        {summary.liftover && <LiftoverNote liftover={summary.liftover} />}
+        {skipped === 0 ? (
+          <p>Every row in the file was read successfully.</p>
+        ) : (
+          <>
+            <p>{skipped.toLocaleString()} rows were skipped:</p>
+            <ul>
+              {rejections
+                .sort(([, a], [, b]) => b.count - a.count)
+                .map(([reason, rejection]) => (
+                  <li key={reason}>
+                    <strong>{REJECTION_REASON_LABELS[reason]}</strong>: {rejection.count.toLocaleString()}
+                    <div className="genotype-diagnostics-samples">
+                      {rejection.samples.map(sample => (
+                        <span key={sample.line}>
+                          line {sample.line}: <code>{sample.value}</code>
+                        </span>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+            </ul>
+            {summary.diagnostics.rejections['non-rs-id'] && (
+              <p className="genotype-diagnostics-note">
+                Rows with neither an rsID nor a position are usually the vendor&apos;s internal probes and can&apos;t be matched to GWAS studies. This is expected.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+function describeSexInference({ sex, xHeterozygosity, yCallRate }: SexInference): string {
+  const evidence = [
+    xHeterozygosity !== null && `${(xHeterozygosity * 100).toFixed(1)}% of X SNPs heterozygous`,
+    yCallRate !== null && `${(yCallRate * 100).toFixed(0)}% of Y markers called`,
+  ].filter(Boolean).join(', ');
+  return `Chromosomal sex ${sex}, inferred from ${evidence}. X-linked variants are counted as a single copy for XY.`;
+}
+
+// Per-file status: detected format, build, inferred sex and parse diagnostics
+function GenotypeSourceStatus({ source, showFileName }: { source: GenotypeSource; showFileName: boolean }) {
+  const { sampleName, formatDetection, genomeBuild, sexInference, parseSummary } = source;
+
+  return (
+    <span className="genotype-source">
+      {showFileName && <span className="genotype-source-name" title={source.fileName}>{source.fileName}</span>}
+      {sampleName && <span className="genotype-sample" title={`Genotypes read from VCF sample ${sampleName}`}>(sample {sampleName})</span>}
+      {formatDetection && (
+        <span
+          className={`genotype-format confidence-${formatDetection.confidenceLevel}`}
+          title={`Detected from the file header and first rows (${Math.round(formatDetection.confidence * 100)}% confidence)`}
+        >
+          Detected as {formatDetection.label} ({formatDetection.confidenceLevel} confidence)
+        </span>
+      )}
+      {genomeBuild && (
+        <span className="genotype-build" title={`Genome build ${GENOME_BUILD_SOURCE_LABELS[genomeBuild.source]}`}>
+          {genomeBuild.build}
+        </span>
+      )}
+      {sexInference && sexInference.sex !== 'unknown' && (
+        <span className="genotype-build" title={describeSexInference(sexInference)}>
+          {sexInference.sex}
+        </span>
+      )}
+      <ParseSummaryDetails summary={parseSummary} />
+    </span>
+  );
+}
+
+// Agreement between files on the SNPs more than one of them called
+function ConcordanceSummary({ concordance, sources }: { concordance: ConcordanceReport; sources: GenotypeSource[] }) {
+  if (concordance.rate === null) {
+    return <span className="genotype-concordance">No overlapping SNPs between files</span>;
+  }
+
+  return (
+    <details className={`genotype-diagnostics genotype-concordance ${concordance.likelyDifferentPeople ? 'low-concordance' : ''}`}>
+      <summary>
+        {concordance.likelyDifferentPeople && '⚠ '}
+        {(concordance.rate * 100).toFixed(1)}% concordance on {concordance.overlapping.toLocaleString()} shared SNPs
+      </summary>
+      <div className="genotype-diagnostics-panel">
+        {concordance.likelyDifferentPeople && (
+          <p className="genotype-concordance-warning">
+            These files disagree on too many SNPs to come from the same person. Check that every file belongs to you before exploring results.
+          </p>
+        )}
+        {concordance.discordant === 0 ? (
+          <p>Every shared SNP has the same call in each file.</p>
+        ) : (
+          <>
+            <p>{concordance.discordant.toLocaleString()} discordant calls were set to no-call:</p>
+            <div className="genotype-diagnostics-samples">
+              {concordance.discordantCalls.map(call => (
+                <span key={call.rsid}>
+                  <code>{call.rsid}</code>: {call.calls.map(({ sourceIndex, genotype }) =>
+                    `${genotype} (${sources[sourceIndex]?.fileName ?? `file ${sourceIndex + 1}`})`
+                  ).join(' vs ')}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
 export default function UserDataUpload() {
-  const { uploadGenotype, clearGenotype, isUploaded, isLoading, error } = useGenotype();
+  const {
+    uploadGenotype,
+    addGenotypeFile,
+    cancelUpload,
+    clearGenotype,
+    isUploaded,
+    isLoading,
+    uploadProgress,
+    error,
+    sources,
+    concordance,
+    archiveMembers,
+    selectArchiveMember,
+    cancelArchiveSelection,
+  } = useGenotype();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const addFileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     // Validate file type
-    const fileName = file.name.toLowerCase();
-    if (!fileName.endsWith('.txt') && !fileName.endsWith('.tsv') && !fileName.endsWith('.csv')) {
+    if (!validateFileFormat(file)) {
       return;
     }
 
-    // Validate file size (50MB limit)
-    if (file.size > 50 * 1024 * 1024) {
+    // Validate file size
+    if (!validateFileSize(file)) {
       return;
     }
 
-    // Automatically upload the file
-    await uploadGenotype(file);
+    // Automatically upload the file, merging it with the loaded ones when adding
+    const input = event.target;
+    await (isUploaded ? addGenotypeFile(file) : uploadGenotype(file));
 
     // Reset file input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    input.value = '';
   };
 
+  if (archiveMembers) {
+    return (
+      <div className="genotype-upload genotype-archive-picker">
+        <label htmlFor="genotype-archive-member" className="genotype-archive-label">
+          Several files in this archive—choose one:
+        </label>
+        <select
+          id="genotype-archive-member"
+          defaultValue=""
+          onChange={(event) => event.target.value && selectArchiveMember(event.target.value)}
+          disabled={isLoading}
+        >
+          <option value="" disabled>Select a file…</option>
+          {archiveMembers.map((member) => (
+            <option key={member} value={member}>{member}</option>
+          ))}
+        </select>
+        <button className="genotype-clear" onClick={cancelArchiveSelection} disabled={isLoading}>
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
   if (isUploaded) {
     return (
       <div className="genotype-status">
         <span className="genotype-indicator">
           ✓ DNA loaded—ready to explore
+          {sources.length > 1 && <span className="genotype-sample"> ({sources.length} files combined)</span>}
         </span>
+        {sources.map((source, index) => (
+          <GenotypeSourceStatus key={`${source.fileHash}-${index}`} source={source} showFileName={sources.length > 1} />
+        ))}
+        {concordance && <ConcordanceSummary concordance={concordance} sources={sources} />}
+        <input
+          ref={addFileInputRef}
+          type="file"
+          accept=".txt,.tsv,.csv,.vcf,.gz,.zip"
+          onChange={handleFileSelect}
+          className="genotype-file-input"
+          id="genotype-add-file"
+          disabled={isLoading}
+        />
+        {isLoading ? (
+          <>
+            <progress className="genotype-progress" value={uploadProgress ?? undefined} max={100} />
+            <button className="genotype-clear" onClick={cancelUpload} title="Stop reading this file">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <label
+            htmlFor="genotype-add-file"
+            className="genotype-clear genotype-add"
+            title="Combine results from another testing company for the same person"
+          >
+            Add file
+          </label>
+        )}
+        {error && (
+          <div className="genotype-error" title={error}>
+            Upload failed
+          </div>
+        )}
         <button
           className="genotype-clear"
           onClick={clearGenotype}
@@ -179,15 +666,25 @@ export default function UserDataUpload() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".txt,.tsv,.csv"
+        accept=".txt,.tsv,.csv,.vcf,.gz,.zip"
         onChange={handleFileSelect}
         className="genotype-file-input"
         id="genotype-upload"
         disabled={isLoading}
       />
       <label htmlFor="genotype-upload" className={`genotype-upload-label ${isLoading ? 'loading' : ''}`}>
-        {isLoading ? 'Analyzing your genetic map...' : 'Load genetic data'}
+        {isLoading
+          ? `Analyzing your genetic map...${uploadProgress !== null ? ` ${uploadProgress}%` : ''}`
+          : 'Load genetic data'}
       </label>
+      {isLoading && (
+        <>
+          <progress className="genotype-progress" value={uploadProgress ?? undefined} max={100} />
+          <button className="genotype-clear" onClick={cancelUpload} title="Stop reading this file">
+            Cancel
+          </button>
+        </>
+      )}
       <a
         href="https://drive.google.com/file/d/1WK3zZbqmu3_m6LvoQCylyIbWBkoO5pGI/view?usp=sharing"
         target="_blank"
@@ -1,47 +1,66 @@
 "use client";
 
 import { useGenotype } from "./UserDataUpload";
-import { parseVariantIds, getMatchingSNPs } from "@/lib/snp-utils";
+import { parseVariantIds, getSNPMatches, SNPMatch } from "@/lib/snp-utils";
 import { trackVariantClick } from "@/lib/analytics";
 import { CheckIcon } from "./Icons";
 
 type VariantChipsProps = {
   snps: string | null;
   riskAllele: string | null;
+  chrId?: string | null;
+  chrPos?: string | null;
+  snpIdCurrent?: string | null;
 };
 
-export default function VariantChips({ snps, riskAllele }: VariantChipsProps) {
-  const { genotypeData, isUploaded } = useGenotype();
+function getMatchTitle(match: SNPMatch): string {
+  if (match.matchMethod === 'merged-rsid') {
+    return `You have data for this variant under its merged ID ${match.matchedId}`;
+  }
+  if (match.matchMethod === 'position') {
+    return `You have data for this variant at position ${match.matchedId}`;
+  }
+  return 'You have data for this variant';
+}
+
+export default function VariantChips({ snps, riskAllele, chrId = null, chrPos = null, snpIdCurrent = null }: VariantChipsProps) {
+  const { genotypeData, positionIndex, mergeTable, isUploaded } = useGenotype();
   const variantIds = parseVariantIds(snps);
   const hasGenotype = riskAllele?.trim().length ?? 0 > 0;
 
   const matchingSNPs = isUploaded && genotypeData ?
-    new Set(getMatchingSNPs(genotypeData, snps)) :
-    new Set();
+    getSNPMatches(genotypeData, snps, { positionIndex, chrId, chrPos, mergeTable, snpIdCurrent }) :
+    new Map<string, SNPMatch>();
 
   return (
     <div className="variant-cell">
       <div className="variant-chip-group" aria-label="SNP identifier">
         {variantIds.length > 0 ? (
-          variantIds.map((variantId) => (
-            <a
-              key={variantId}
-              className={`variant-chip variant-link ${matchingSNPs.has(variantId) ? 'has-user-data' : ''}`}
-              href={`https://www.ncbi.nlm.nih.gov/snp/${encodeURIComponent(variantId)}`}
-              target="_blank"
-              rel="noreferrer"
-              title={matchingSNPs.has(variantId) ? 'You have data for this variant' : undefined}
-              onClick={() => trackVariantClick(variantId)}
-              aria-label={matchingSNPs.has(variantId) ? `${variantId} - You have data for this variant` : variantId}
-            >
-              {variantId}
-              {matchingSNPs.has(variantId) && (
-                <span className="user-data-indicator" aria-hidden="true">
-                  <CheckIcon size={12} />
-                </span>
-              )}
-            </a>
-          ))
+          variantIds.map((variantId) => {
+            const match = matchingSNPs.get(variantId);
+            return (
+              <a
+                key={variantId}
+                className={`variant-chip variant-link ${match ? 'has-user-data' : ''}`}
+                href={`https://www.ncbi.nlm.nih.gov/snp/${encodeURIComponent(variantId)}`}
+                target="_blank"
+                rel="noreferrer"
+                title={match ? getMatchTitle(match) : undefined}
+                onClick={() => trackVariantClick(variantId)}
+                aria-label={match ? `${variantId} - ${getMatchTitle(match)}` : variantId}
+              >
+                {variantId}
+                {match?.matchMethod === 'merged-rsid' && (
+                  <span className="variant-alias">= {match.matchedId}</span>
+                )}
+                {match && (
+                  <span className="user-data-indicator" aria-hidden="true">
+                    <CheckIcon size={12} />
+                  </span>
+                )}
+              </a>
+            );
+          })
         ) : (
           <span className="variant-chip variant-chip--placeholder">Not reported</span>
         )}
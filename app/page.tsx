@@ -4,12 +4,23 @@ import { useEffect, useMemo, useState, useCallback } from "react";
 import { GenotypeProvider, useGenotype } from "./components/UserDataUpload";
 import { ResultsProvider, useResults } from "./components/ResultsContext";
 import StudyResultReveal from "./components/StudyResultReveal";
+import TraitScorePanel from "./components/TraitScorePanel";
 import MenuBar from "./components/MenuBar";
 import VariantChips from "./components/VariantChips";
 import Footer from "./components/Footer";
 import DisclaimerModal from "./components/DisclaimerModal";
 import TermsAcceptanceModal from "./components/TermsAcceptanceModal";
-import { hasMatchingSNPs } from "@/lib/snp-utils";
+import { EffectDirection, EffectType } from "@/lib/effect-classification";
+import {
+  CoverageTally,
+  createCoverageTally,
+  hasMatchingSNPs,
+  mergeCoverageTally,
+  parseVariantIds,
+  StudyCoverage,
+  summarizeCoverage,
+  tallyStudyCoverage,
+} from "@/lib/snp-utils";
 import {
   trackSearch,
   trackFilterChange,
@@ -59,6 +70,9 @@ type Study = {
   risk_allele_frequency: string | null;
   strongest_snp_risk_allele: string | null;
   snps: string | null;
+  chr_id: string | null;
+  chr_pos: string | null;
+  snp_id_current: string | null;
   sampleSize: number | null;
   sampleSizeLabel: string;
   pValueNumeric: number | null;
@@ -68,6 +82,9 @@ type Study = {
   isLowQuality: boolean;
   confidenceBand: ConfidenceBand;
   publicationDate: number | null;
+  effectType: EffectType;
+  effectUnit: string | null;
+  effectDirection: EffectDirection | null;
 };
 
 type StudiesResponse = {
@@ -109,16 +126,6 @@ function InfoIcon({ text }: { text: string }) {
   );
 }
 
-function parseVariantIds(snps: string | null): string[] {
-  if (!snps) {
-    return [];
-  }
-  return snps
-    .split(/[;,\s]+/)
-    .map((id) => id.trim())
-    .filter(Boolean);
-}
-
 function getRelevanceCategory(logPValue: number | null): { label: string; className: string } {
   if (logPValue === null) return { label: "", className: "" };
   if (logPValue >= 9) return { label: "strong", className: "relevance-strong" };
@@ -134,28 +141,25 @@ function getPowerCategory(sampleSize: number | null): { label: string; className
   return { label: "very small", className: "power-very-small" };
 }
 
-function getEffectCategory(effectStr: string | null): { label: string; className: string } {
-  if (!effectStr) return { label: "", className: "" };
-  const effect = parseFloat(effectStr);
+function getEffectCategory(study: Study): { label: string; className: string } {
+  const effect = parseFloat(study.or_or_beta ?? "");
   if (isNaN(effect)) return { label: "", className: "" };
 
-  // Check if this looks like an odds ratio (typically > 0.5 and < 10)
-  // vs a beta coefficient (can be any value, often small)
-  const likelyOR = effect > 0.5 && effect < 10;
-
-  if (likelyOR) {
-    if (Math.abs(effect - 1.0) < 0.05) return { label: "no effect", className: "effect-none" };
-    if (effect < 1.0) {
-      if (effect <= 0.67) return { label: "protective", className: "effect-protective" };
-      return { label: "slightly protective", className: "effect-slight-protective" };
-    }
-    if (effect >= 2.0) return { label: "large effect", className: "effect-large" };
-    if (effect >= 1.5) return { label: "moderate effect", className: "effect-moderate" };
-    return { label: "small effect", className: "effect-small" };
+  // Betas are in the trait's own units, so their size can't be judged without context
+  if (study.effectType === "beta") {
+    const description = [study.effectUnit, study.effectDirection].filter(Boolean).join(" ");
+    return { label: description ? `beta, ${description}` : "beta", className: "" };
   }
 
-  // For beta coefficients, we can't easily categorize without trait context
-  return { label: "", className: "" };
+  const suffix = study.effectType === "HR" ? " (hazard ratio)" : "";
+  if (Math.abs(effect - 1.0) < 0.05) return { label: `no effect${suffix}`, className: "effect-none" };
+  if (effect < 1.0) {
+    if (effect <= 0.67) return { label: `protective${suffix}`, className: "effect-protective" };
+    return { label: `slightly protective${suffix}`, className: "effect-slight-protective" };
+  }
+  if (effect >= 2.0) return { label: `large effect${suffix}`, className: "effect-large" };
+  if (effect >= 1.5) return { label: `moderate effect${suffix}`, className: "effect-moderate" };
+  return { label: `small effect${suffix}`, className: "effect-small" };
 }
 
 function buildQuery(filters: Filters): string {
@@ -184,7 +188,7 @@ function buildQuery(filters: Filters): string {
 }
 
 function MainContent() {
-  const { genotypeData, isUploaded, setOnDataLoadedCallback } = useGenotype();
+  const { genotypeData, positionIndex, mergeTable, isUploaded, setOnDataLoadedCallback, sources } = useGenotype();
   const { setOnResultsLoadedCallback } = useResults();
   const [filters, setFilters] = useState<Filters>(defaultFilters);
   const [debouncedSearch, setDebouncedSearch] = useState<string>(defaultFilters.search);
@@ -296,7 +300,13 @@ function MainContent() {
         if (apiFilters.requireUserSNPs && genotypeData) {
           filteredData = filteredData.filter(study => {
             // First check if study has matching SNPs with user data
-            const hasUserSNPs = hasMatchingSNPs(genotypeData, study.snps);
+            const hasUserSNPs = hasMatchingSNPs(genotypeData, study.snps, {
+              positionIndex,
+              chrId: study.chr_id,
+              chrPos: study.chr_pos,
+              mergeTable,
+              snpIdCurrent: study.snp_id_current,
+            });
             if (!hasUserSNPs) return false;
 
             // If "Require genotype" is also enabled, ensure the study has genotype data
@@ -344,7 +354,7 @@ function MainContent() {
       });
 
     return () => controller.abort();
-  }, [debouncedSearch, filters.trait, filters.minSampleSize, filters.maxPValue, filters.excludeLowQuality, filters.excludeMissingGenotype, filters.requireUserSNPs, filters.sort, filters.sortDirection, filters.limit, filters.confidenceBand, genotypeData]);
+  }, [debouncedSearch, filters.trait, filters.minSampleSize, filters.maxPValue, filters.excludeLowQuality, filters.excludeMissingGenotype, filters.requireUserSNPs, filters.sort, filters.sortDirection, filters.limit, filters.confidenceBand, genotypeData, positionIndex, mergeTable]);
 
   const qualitySummary = useMemo<QualitySummary>(() => {
     return studies.reduce<QualitySummary>(
@@ -359,6 +369,49 @@ function MainContent() {
     );
   }, [studies]);
 
+  // How many of each study's (and each trait's) variants the uploaded chip covers
+  const coverage = useMemo(() => {
+    const byStudy = new Map<number, StudyCoverage>();
+    const byTrait = new Map<string, StudyCoverage & { studies: number }>();
+    if (!genotypeData) {
+      return { byStudy, byTrait };
+    }
+
+    // Each study is matched once; trait coverage merges the studies' variant sets
+    const traitTallies = new Map<string, { tally: CoverageTally; studies: number }>();
+    for (const study of studies) {
+      const tally = tallyStudyCoverage(genotypeData, study.snps, {
+        positionIndex,
+        chrId: study.chr_id,
+        chrPos: study.chr_pos,
+        mergeTable,
+        snpIdCurrent: study.snp_id_current,
+      });
+      byStudy.set(study.id, summarizeCoverage(tally));
+
+      const trait = study.mapped_trait ?? study.disease_trait;
+      if (trait) {
+        let traitTally = traitTallies.get(trait);
+        if (!traitTally) {
+          traitTally = { tally: createCoverageTally(), studies: 0 };
+          traitTallies.set(trait, traitTally);
+        }
+        mergeCoverageTally(traitTally.tally, tally);
+        traitTally.studies++;
+      }
+    }
+
+    traitTallies.forEach(({ tally, studies: studyCount }, trait) => {
+      if (studyCount > 1) {
+        byTrait.set(trait, { ...summarizeCoverage(tally), studies: studyCount });
+      }
+    });
+
+    return { byStudy, byTrait };
+  }, [studies, genotypeData, positionIndex, mergeTable]);
+
+  const chipName = sources.length === 1 ? sources[0].chip?.chip ?? null : null;
+
   const resetFilters = () => {
     setFilters(defaultFilters);
     setDebouncedSearch(defaultFilters.search);
@@ -604,6 +657,10 @@ function MainContent() {
 
       </section>
 
+      {isUploaded && traits.includes(filters.trait) && (
+        <TraitScorePanel key={filters.trait} trait={filters.trait} />
+      )}
+
       <section className="table-wrapper" aria-busy={loading}>
         <div className="table-scroll-container">
         <table>
@@ -690,7 +747,7 @@ function MainContent() {
                 const effect = study.or_or_beta ?? "—";
                 const relevanceCategory = getRelevanceCategory(study.logPValue);
                 const powerCategory = getPowerCategory(study.sampleSize);
-                const effectCategory = getEffectCategory(study.or_or_beta);
+                const effectCategory = getEffectCategory(study);
                 const gwasLink = study.study_accession
                   ? `https://www.ebi.ac.uk/gwas/studies/${study.study_accession}`
                   : null;
@@ -699,6 +756,8 @@ function MainContent() {
                 const variantIds = parseVariantIds(study.snps);
                 const variantGenotype = study.strongest_snp_risk_allele?.trim() ?? "";
                 const hasGenotype = variantGenotype.length > 0;
+                const studyCoverage = coverage.byStudy.get(study.id);
+                const traitCoverage = coverage.byTrait.get(trait);
                 const confidenceLabel =
                   study.confidenceBand === "high"
                     ? "High confidence"
@@ -729,9 +788,34 @@ function MainContent() {
                         {study.mapped_gene && <span>Gene: {study.mapped_gene}</span>}
                       </div>
                     </td>
-                    <td data-label="Trait">{trait}</td>
+                    <td data-label="Trait">
+                      {trait}
+                      {traitCoverage && (
+                        <span
+                          className="submetric coverage"
+                          title={`Distinct variants across the ${traitCoverage.studies} studies of this trait listed here`}
+                        >
+                          {traitCoverage.onChip}/{traitCoverage.total} trait SNPs on your chip
+                        </span>
+                      )}
+                    </td>
                     <td data-label="Variant & Genotype">
-                      <VariantChips snps={study.snps} riskAllele={study.strongest_snp_risk_allele} />
+                      <VariantChips
+                        snps={study.snps}
+                        riskAllele={study.strongest_snp_risk_allele}
+                        chrId={study.chr_id}
+                        chrPos={study.chr_pos}
+                        snpIdCurrent={study.snp_id_current}
+                      />
+                      {studyCoverage && (
+                        <span
+                          className={`submetric coverage ${studyCoverage.onChip === 0 ? "not-covered" : ""}`}
+                          title={chipName ? `Compared against your ${chipName} data` : undefined}
+                        >
+                          {studyCoverage.onChip}/{studyCoverage.total} SNP{studyCoverage.total !== 1 ? "s" : ""} on your chip
+                          {studyCoverage.noCalls > 0 && `, ${studyCoverage.noCalls} no-call${studyCoverage.noCalls !== 1 ? "s" : ""}`}
+                        </span>
+                      )}
                     </td>
                     <td data-label="Relevance">
                       <span className={`metric ${relevanceCategory.className}`}>{relevance}</span>
@@ -781,6 +865,9 @@ function MainContent() {
                       <StudyResultReveal
                         studyId={study.id}
                         snps={study.snps}
+                        chrId={study.chr_id}
+                        chrPos={study.chr_pos}
+                        snpIdCurrent={study.snp_id_current}
                         traitName={trait}
                         studyTitle={study.study || "Untitled study"}
                       />
@@ -0,0 +1,145 @@
+// Approximate absolute risk from an odds ratio. A relative score like "1.3x" is not a
+// probability; combined with how common the trait is (public/reference/trait-prevalence.tsv,
+// keyed by the catalog's mapped_trait_uri term) it becomes an estimated lifetime risk.
+
+import { getGenotypeFrequencies } from './genotype-frequency';
+import { ChromosomalSex } from './genotype-parser';
+
+export type TraitPrevalence = {
+  traitId: string; // Ontology term, e.g. "EFO_0001360"
+  trait: string;
+  prevalence: number; // Lifetime risk or prevalence in the general population (0-1)
+  source: string;
+  sex: ChromosomalSex; // Population the figure describes; 'unknown' for both sexes
+};
+
+export type TraitPrevalenceTable = Map<string, TraitPrevalence>;
+
+export const TRAIT_PREVALENCE_URL = '/reference/trait-prevalence.tsv';
+
+export type AbsoluteRisk = {
+  absoluteRisk: number; // Estimated risk for the user's genotype (0-1)
+  baselineRisk: number; // Population prevalence it was calibrated against
+  trait: string;
+  source: string;
+  // 'genotype-frequencies': the baseline is the population average over genotype
+  // frequencies from the risk allele frequency; 'prevalence-as-reference': without
+  // frequencies, non-carriers are assumed to have the population prevalence
+  calibration: 'genotype-frequencies' | 'prevalence-as-reference';
+};
+
+const SEX_CODES: Record<string, ChromosomalSex> = { female: 'XX', male: 'XY' };
+
+// traitId<TAB>trait<TAB>prevalence<TAB>source[<TAB>sex], with an optional header row and
+// # comments. sex is "female" or "male" for sex-specific figures, empty for both.
+export function parseTraitPrevalenceTable(content: string): TraitPrevalenceTable {
+  const table: TraitPrevalenceTable = new Map();
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.toLowerCase().startsWith('trait_id')) {
+      continue;
+    }
+
+    const [traitId, trait, prevalence, source, sex] = line.split('\t').map(field => field?.trim());
+    const value = parseFloat(prevalence ?? '');
+    if (!traitId || !(value > 0 && value < 1)) {
+      continue;
+    }
+    table.set(traitId, {
+      traitId,
+      trait: trait || traitId,
+      prevalence: value,
+      source: source || '',
+      sex: SEX_CODES[sex?.toLowerCase() ?? ''] ?? 'unknown',
+    });
+  }
+
+  return table;
+}
+
+// Returns null when the table isn't installed
+export async function loadTraitPrevalenceTable(): Promise<TraitPrevalenceTable | null> {
+  try {
+    const response = await fetch(TRAIT_PREVALENCE_URL);
+    if (!response.ok) {
+      return null;
+    }
+    return parseTraitPrevalenceTable(await response.text());
+  } catch {
+    return null;
+  }
+}
+
+// mapped_trait_uri holds one or more ontology URLs ("http://www.ebi.ac.uk/efo/EFO_0001360, ...").
+// Rows mapped to several traits are ambiguous, so only single-trait rows get a prevalence.
+// Sex-specific figures (e.g. breast cancer in women) only apply when the upload's inferred
+// sex matches; an unknown sex can't be checked, so they aren't applied then either.
+export function getTraitPrevalence(
+  table: TraitPrevalenceTable | null | undefined,
+  mappedTraitUri: string | null | undefined,
+  chromosomalSex: ChromosomalSex = 'unknown'
+): TraitPrevalence | null {
+  const uris = (mappedTraitUri ?? '').split(',').map(uri => uri.trim()).filter(Boolean);
+  if (!table || uris.length !== 1) {
+    return null;
+  }
+  const traitId = uris[0].split('/').pop() ?? '';
+  const prevalence = table.get(traitId);
+  if (!prevalence || (prevalence.sex !== 'unknown' && prevalence.sex !== chromosomalSex)) {
+    return null;
+  }
+  return prevalence;
+}
+
+function toOdds(risk: number): number {
+  return risk / (1 - risk);
+}
+
+function toRisk(odds: number): number {
+  return odds / (1 + odds);
+}
+
+// Odds for non-carriers such that the population average risk equals the prevalence,
+// found by bisection on the log odds
+function calibrateReferenceOdds(prevalence: number, oddsRatio: number, frequencies: number[]): number {
+  const averageRisk = (logOdds: number) =>
+    frequencies.reduce((sum, frequency, copies) => sum + frequency * toRisk(Math.exp(logOdds) * Math.pow(oddsRatio, copies)), 0);
+
+  let low = -20;
+  let high = 20;
+  for (let iteration = 0; iteration < 60; iteration++) {
+    const middle = (low + high) / 2;
+    if (averageRisk(middle) < prevalence) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.exp((low + high) / 2);
+}
+
+// relativeOdds is the user's odds relative to non-carriers (the OR result's riskScore).
+// Calibrating on genotype frequencies needs the per-allele OR and a single variant.
+export function estimateAbsoluteRisk(
+  relativeOdds: number,
+  prevalence: TraitPrevalence,
+  { perAlleleOddsRatio = null, riskAlleleFrequency = null, ploidy = 2 }: {
+    perAlleleOddsRatio?: number | null;
+    riskAlleleFrequency?: number | null;
+    ploidy?: 1 | 2;
+  } = {}
+): AbsoluteRisk {
+  const canCalibrate = perAlleleOddsRatio !== null && perAlleleOddsRatio > 0 && riskAlleleFrequency !== null;
+  const referenceOdds = canCalibrate
+    ? calibrateReferenceOdds(prevalence.prevalence, perAlleleOddsRatio!, getGenotypeFrequencies(riskAlleleFrequency!, ploidy))
+    : toOdds(prevalence.prevalence);
+
+  return {
+    absoluteRisk: toRisk(referenceOdds * relativeOdds),
+    baselineRisk: prevalence.prevalence,
+    trait: prevalence.trait,
+    source: prevalence.source,
+    calibration: canCalibrate ? 'genotype-frequencies' : 'prevalence-as-reference',
+  };
+}
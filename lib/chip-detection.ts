@@ -0,0 +1,115 @@
+// Genotyping array detection. Vendors don't label their exports with the chip, but the
+// array decides which SNPs a file can contain, so it's inferred from the header, from
+// array-specific marker names in the variant set, and from the number of markers the
+// vendor ships for each version.
+
+import { GenomeBuild, GenotypeChipDetection, GenotypeData, GenotypeFormatId } from './genotype-parser';
+
+type ArrayFamily = 'GSA' | 'OmniExpress' | 'HumanHap550';
+
+type ChipProfile = {
+  chip: string;
+  array: ArrayFamily;
+  minVariants: number;
+  maxVariants: number;
+  build?: GenomeBuild; // Only shipped on this build
+};
+
+// Typical row counts of each vendor's exports, by array version
+const CHIP_PROFILES: Partial<Record<GenotypeFormatId, ChipProfile[]>> = {
+  '23andme': [
+    { chip: '23andMe v2 (Illumina HumanHap550)', array: 'HumanHap550', minVariants: 540000, maxVariants: 600000, build: 'GRCh36' },
+    { chip: '23andMe v3 (Illumina OmniExpress+)', array: 'OmniExpress', minVariants: 900000, maxVariants: 1010000 },
+    { chip: '23andMe v4 (Illumina OmniExpress)', array: 'OmniExpress', minVariants: 560000, maxVariants: 615000 },
+    { chip: '23andMe v5 (Illumina GSA)', array: 'GSA', minVariants: 615000, maxVariants: 700000 },
+  ],
+  ancestrydna: [
+    { chip: 'AncestryDNA v1 (Illumina OmniExpress)', array: 'OmniExpress', minVariants: 690000, maxVariants: 720000 },
+    { chip: 'AncestryDNA v2 (Illumina OmniExpress)', array: 'OmniExpress', minVariants: 630000, maxVariants: 690000 },
+  ],
+  myheritage: [
+    { chip: 'MyHeritage (Illumina OmniExpress)', array: 'OmniExpress', minVariants: 680000, maxVariants: 730000 },
+    { chip: 'MyHeritage (Illumina GSA)', array: 'GSA', minVariants: 540000, maxVariants: 680000 },
+  ],
+  ftdna: [
+    { chip: 'FamilyTreeDNA (Illumina OmniExpress)', array: 'OmniExpress', minVariants: 680000, maxVariants: 730000 },
+    { chip: 'FamilyTreeDNA (Illumina GSA)', array: 'GSA', minVariants: 540000, maxVariants: 680000 },
+  ],
+  livingdna: [
+    { chip: 'LivingDNA (Illumina GSA)', array: 'GSA', minVariants: 600000, maxVariants: 720000 },
+  ],
+};
+
+// Marker names only found in one array family's manifest
+const MARKER_SIGNATURES: Array<{ array: ArrayFamily; pattern: RegExp }> = [
+  { array: 'GSA', pattern: /^(GSA-|ilmnseq_|seq-rs)/i },
+  { array: 'OmniExpress', pattern: /^kgp\d+$/i },
+];
+
+// Markers needed before a signature counts, so a stray renamed row can't decide the array
+const MIN_SIGNATURE_MARKERS = 50;
+
+const ARRAY_LABELS: Record<ArrayFamily, string> = {
+  GSA: 'Illumina Global Screening Array',
+  OmniExpress: 'Illumina OmniExpress',
+  HumanHap550: 'Illumina HumanHap550',
+};
+
+// AncestryDNA states the version: "#Data was collected using AncestryDNA array version: V2.0"
+function detectChipFromHeader(headerLines: string[]): string | null {
+  for (const line of headerLines) {
+    const ancestryVersion = line.match(/ancestrydna array version:\s*v?(\d+)/i);
+    if (ancestryVersion) {
+      return `AncestryDNA v${ancestryVersion[1]} (Illumina OmniExpress)`;
+    }
+  }
+  return null;
+}
+
+function detectArrayFromMarkers(data: GenotypeData[]): ArrayFamily | null {
+  const counts = new Map<ArrayFamily, number>();
+  for (const variant of data) {
+    if (variant.rsid.startsWith('rs')) continue;
+    const signature = MARKER_SIGNATURES.find(({ pattern }) => pattern.test(variant.rsid));
+    if (signature) {
+      counts.set(signature.array, (counts.get(signature.array) ?? 0) + 1);
+    }
+  }
+
+  let best: ArrayFamily | null = null;
+  counts.forEach((count, array) => {
+    if (count >= MIN_SIGNATURE_MARKERS && (!best || count > counts.get(best)!)) {
+      best = array;
+    }
+  });
+  return best;
+}
+
+export function detectGenotypingChip(
+  formatId: GenotypeFormatId,
+  headerLines: string[],
+  data: GenotypeData[],
+  build?: GenomeBuild
+): GenotypeChipDetection | null {
+  const fromHeader = detectChipFromHeader(headerLines);
+  if (fromHeader) {
+    return { chip: fromHeader, source: 'header' };
+  }
+
+  const profiles = CHIP_PROFILES[formatId] ?? [];
+  const fitsCount = (profile: ChipProfile) =>
+    data.length >= profile.minVariants &&
+    data.length < profile.maxVariants &&
+    (!profile.build || profile.build === build);
+
+  // Array-specific marker names narrow the vendor's versions to one array family
+  const array = detectArrayFromMarkers(data);
+  if (array) {
+    const familyProfiles = profiles.filter(profile => profile.array === array);
+    const profile = familyProfiles.find(fitsCount) ?? (familyProfiles.length === 1 ? familyProfiles[0] : undefined);
+    return { chip: profile ? profile.chip : ARRAY_LABELS[array], source: 'marker-set' };
+  }
+
+  const profile = profiles.find(fitsCount);
+  return profile ? { chip: profile.chip, source: 'variant-count' } : null;
+}
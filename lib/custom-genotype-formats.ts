@@ -0,0 +1,14 @@
+// In-house genotype formats. This module is imported by the genotype parser worker,
+// so formats registered here take part in upload detection alongside the built-in
+// vendors. Example:
+//
+//   registerGenotypeFormat({
+//     id: 'lab-panel',
+//     label: 'Lab panel export',
+//     vendor: 'Internal lab',
+//     expectedBuild: 'GRCh38',
+//     sniff: (lines) => (lines[0]?.startsWith('#LAB-PANEL') ? 0.95 : 0),
+//     createParser: createLabPanelParser,
+//   });
+
+export {};
@@ -0,0 +1,173 @@
+// Client-side decompression helpers. Genotype files never leave the browser,
+// so compressed uploads are inflated locally with the native DecompressionStream API.
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export function isGzipData(data: Uint8Array): boolean {
+  return data.length >= 2 && data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1];
+}
+
+async function inflate(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Size of the BGZF (bgzip) block starting at offset, or null if the header there isn't
+// a BGZF block. BGZF files are a series of independent gzip members, each carrying its
+// compressed size in a 'BC' extra subfield.
+function getBgzfBlockSize(data: Uint8Array, offset: number): number | null {
+  if (data.length - offset < 18) {
+    return null;
+  }
+
+  const hasExtraField = (data[offset + 3] & 0x04) !== 0;
+  const isBgzfBlock = isGzipData(data.subarray(offset)) &&
+    hasExtraField &&
+    data[offset + 12] === 0x42 && // 'B'
+    data[offset + 13] === 0x43 && // 'C'
+    data[offset + 14] === 2;
+
+  return isBgzfBlock ? (data[offset + 16] | (data[offset + 17] << 8)) + 1 : null;
+}
+
+export function isBgzfData(data: Uint8Array): boolean {
+  return getBgzfBlockSize(data, 0) !== null;
+}
+
+// Not every DecompressionStream implementation accepts concatenated gzip members,
+// so BGZF blocks are cut out of the stream and inflated one by one
+function createBgzfInflateStream(): TransformStream<Uint8Array, Uint8Array> {
+  let pending: Uint8Array = new Uint8Array(0);
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      const buffer = new Uint8Array(pending.length + chunk.length);
+      buffer.set(pending);
+      buffer.set(chunk, pending.length);
+
+      let offset = 0;
+      while (buffer.length - offset >= 18) {
+        const blockSize = getBgzfBlockSize(buffer, offset);
+        if (blockSize === null) {
+          throw new Error('Invalid bgzip file: corrupt block header');
+        }
+        if (offset + blockSize > buffer.length) {
+          break;
+        }
+        controller.enqueue(await inflate(buffer.subarray(offset, offset + blockSize), 'gzip'));
+        offset += blockSize;
+      }
+
+      pending = buffer.slice(offset);
+    },
+
+    flush() {
+      if (pending.length > 0) {
+        throw new Error('Invalid bgzip file: truncated block');
+      }
+    },
+  });
+}
+
+// Inflate a gzip or bgzip byte stream; `head` is the first bytes of the file, used to tell them apart
+export function decompressGzipStream(
+  stream: ReadableStream<Uint8Array>,
+  head: Uint8Array
+): ReadableStream<Uint8Array> {
+  return isBgzfData(head)
+    ? stream.pipeThrough(createBgzfInflateStream())
+    : stream.pipeThrough(new DecompressionStream('gzip') as unknown as TransformStream<Uint8Array, Uint8Array>);
+}
+
+export type ZipEntry = {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isEncrypted: boolean;
+};
+
+const ZIP_LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP_CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+export function isZipData(data: Uint8Array): boolean {
+  return data.length >= 4 &&
+    new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0, true) === ZIP_LOCAL_HEADER_SIGNATURE;
+}
+
+// Read the zip central directory. Vendor exports are small single-disk archives,
+// so ZIP64 and multi-disk archives are not supported.
+export function listZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits at the end, followed by an optional comment (max 64KB)
+  let endOffset = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = offset;
+      break;
+    }
+  }
+
+  if (endOffset === -1) {
+    throw new Error('Invalid zip archive: central directory not found');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid zip archive: corrupt central directory');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength)),
+      compressionMethod: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      isEncrypted: (view.getUint16(offset + 8, true) & 0x01) !== 0,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+export async function extractZipEntry(data: Uint8Array, entry: ZipEntry): Promise<Uint8Array> {
+  if (entry.isEncrypted) {
+    throw new Error(`${entry.name} is password protected. Please extract it and upload the file directly.`);
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerOffset = entry.localHeaderOffset;
+
+  if (view.getUint32(headerOffset, true) !== ZIP_LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Invalid zip archive: corrupt local file header');
+  }
+
+  // The local header repeats the name and has its own extra field length
+  const dataOffset = headerOffset + 30 +
+    view.getUint16(headerOffset + 26, true) +
+    view.getUint16(headerOffset + 28, true);
+  const compressed = data.subarray(dataOffset, dataOffset + entry.compressedSize);
+
+  switch (entry.compressionMethod) {
+    case 0: // Stored
+      return compressed;
+    case 8: // Deflate
+      return inflate(compressed, 'deflate-raw');
+    default:
+      throw new Error(`Unsupported zip compression method (${entry.compressionMethod}) for ${entry.name}`);
+  }
+}
@@ -0,0 +1,122 @@
+// What a catalog association's or_or_beta means. The catalog stores odds ratios, hazard
+// ratios and betas in one column: ci_text carries a beta's unit and direction
+// ("[0.01-0.03] cm increase"), the trait hints at quantitative or time-to-event analyses,
+// and ratios can't be zero or negative. Used by the API routes and the UI alike.
+
+import { ConfidenceInterval, parseIntervalDescription } from './parsing';
+
+export type EffectType = 'OR' | 'HR' | 'beta';
+
+export type EffectDirection = 'increase' | 'decrease';
+
+export type EffectClassification = {
+  effectType: EffectType;
+  unit: string | null; // Beta unit ("cm", "mg/dL", "SD"); null for ratios or when the study names none
+  direction: EffectDirection | null; // Beta direction from ci_text; the catalog reports betas unsigned
+  basis: 'ci-text' | 'trait' | 'value-range' | 'default'; // What settled the effect type
+};
+
+export const EFFECT_TYPE_LABELS: Record<EffectType, string> = {
+  OR: 'odds ratio',
+  HR: 'hazard ratio',
+  beta: 'beta',
+};
+
+// Lowercased ci_text units -> display form. "unit" on its own names no unit.
+const UNIT_ALIASES: Record<string, string | null> = {
+  unit: null,
+  units: null,
+  sd: 'SD',
+  's.d.': 'SD',
+  'sd unit': 'SD',
+  'sd units': 'SD',
+  'standard deviation': 'SD',
+  'standard deviations': 'SD',
+  'z score': 'SD',
+  'z-score': 'SD',
+  'mg/dl': 'mg/dL',
+  'g/dl': 'g/dL',
+  'mmol/l': 'mmol/L',
+  'umol/l': 'µmol/L',
+  'µmol/l': 'µmol/L',
+  'ng/ml': 'ng/mL',
+  'pg/ml': 'pg/mL',
+  'iu/l': 'IU/L',
+  'u/l': 'U/L',
+  mmhg: 'mmHg',
+  'mm hg': 'mmHg',
+  'kg/m2': 'kg/m²',
+};
+
+const HAZARD_PATTERN = /\bhazard\b/i;
+
+// Time-to-event outcomes, usually analysed with Cox models
+const TIME_TO_EVENT_TRAIT = /\b(survival|time to|time-to|event-free|recurrence-free|progression-free)\b/i;
+
+// Measured traits, reported as betas even when ci_text gives no unit
+const QUANTITATIVE_TRAIT = /\b(measurement|levels?|concentration|height|body mass index|bmi|count|volume|density|thickness|pressure)\b/i;
+
+// Ratios this large are implausible; such values are betas on a large-valued scale
+const MAX_PLAUSIBLE_RATIO = 50;
+
+function normalizeUnit(unit: string | null): string | null {
+  if (!unit) return null;
+  return unit in UNIT_ALIASES ? UNIT_ALIASES[unit] : unit;
+}
+
+export function classifyEffect(
+  ciText: string | null | undefined,
+  trait: string | null | undefined,
+  effectSize: string | number | null | undefined
+): EffectClassification {
+  const { unit, direction } = parseIntervalDescription(ciText);
+  const effect = typeof effectSize === 'number' ? effectSize : parseFloat(effectSize ?? '');
+
+  if (HAZARD_PATTERN.test(ciText ?? '')) {
+    return { effectType: 'HR', unit: null, direction: null, basis: 'ci-text' };
+  }
+  if (unit || direction) {
+    return { effectType: 'beta', unit: normalizeUnit(unit), direction, basis: 'ci-text' };
+  }
+  if (!isNaN(effect) && (effect <= 0 || effect > MAX_PLAUSIBLE_RATIO)) {
+    return { effectType: 'beta', unit: null, direction: null, basis: 'value-range' };
+  }
+  if (TIME_TO_EVENT_TRAIT.test(trait ?? '') || HAZARD_PATTERN.test(trait ?? '')) {
+    return { effectType: 'HR', unit: null, direction: null, basis: 'trait' };
+  }
+  if (QUANTITATIVE_TRAIT.test(trait ?? '')) {
+    return { effectType: 'beta', unit: null, direction: null, basis: 'trait' };
+  }
+  return { effectType: 'OR', unit: null, direction: null, basis: 'default' };
+}
+
+// Ratios multiply risk; betas shift a measurement
+export function isRatioEffect(effectType: EffectType | undefined): boolean {
+  return effectType !== 'beta';
+}
+
+// The catalog reports betas unsigned, with "decrease" in ci_text for negative effects
+export function signBetaEffect(effect: number, direction: EffectDirection | null | undefined): number {
+  return direction === 'decrease' && effect > 0 ? -effect : effect;
+}
+
+export function signBetaInterval(
+  interval: ConfidenceInterval | null,
+  direction: EffectDirection | null | undefined
+): ConfidenceInterval | null {
+  if (!interval || direction !== 'decrease' || interval.lower < 0) {
+    return interval;
+  }
+  return { ...interval, lower: -interval.upper, upper: -interval.lower };
+}
+
+// A result's score in its own terms: "1.23x" for ratios, "+0.052 cm" for betas
+export function formatEffectScore(score: number, effectType: EffectType | undefined, unit?: string | null): string {
+  if (isRatioEffect(effectType)) {
+    return `${score.toFixed(2)}x`;
+  }
+  if (score === 0) {
+    return 'no change';
+  }
+  return `${score > 0 ? '+' : ''}${score.toFixed(3)} ${unit ?? 'units'}`;
+}
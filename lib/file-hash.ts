@@ -2,4 +2,16 @@ import CryptoJS from 'crypto-js';
 
 export function calculateFileHash(fileContent: string): string {
   return CryptoJS.SHA256(fileContent).toString();
-}
\ No newline at end of file
+}
+
+// Incremental variant of calculateFileHash for streamed files. Feeding the decoded
+// text chunk by chunk produces the same digest as hashing the whole string.
+export function createFileHasher() {
+  const hasher = CryptoJS.algo.SHA256.create();
+  return {
+    update: (chunk: string) => {
+      hasher.update(chunk);
+    },
+    digest: () => hasher.finalize().toString(),
+  };
+}
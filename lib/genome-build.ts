@@ -0,0 +1,99 @@
+// Genome build detection. Vendors report positions on different assemblies
+// (23andMe v2/v3 on build 36, most chips on 37, sequencing VCFs often on 38) while the
+// GWAS Catalog chr_pos column is on GRCh38, so the build is recorded on every upload.
+
+import { GenomeBuild, GenomeBuildDetection, GenotypeData } from './genotype-parser';
+
+// The build the GWAS Catalog reports chr_pos on
+export const CATALOG_GENOME_BUILD: GenomeBuild = 'GRCh38';
+
+// Header patterns, checked in order. Covers 23andMe/AncestryDNA/LivingDNA comments
+// ("reference human assembly build 37") and VCF ##reference / ##contig assembly lines.
+const BUILD_HEADER_PATTERNS: Array<[RegExp, GenomeBuild]> = [
+  [/grch38|hg38|hs38|build\s*38|assembly=38\b/i, 'GRCh38'],
+  [/grch37|hg19|hs37d5|g1k_v37|\bb37\b|build\s*37|assembly=37\b/i, 'GRCh37'],
+  [/ncbi\s*36|hg18|build\s*36|assembly=36\b/i, 'GRCh36'],
+];
+
+// chr1 length declared in VCF ##contig lines
+const CHR1_LENGTHS: Record<string, GenomeBuild> = {
+  '248956422': 'GRCh38',
+  '249250621': 'GRCh37',
+  '247249719': 'GRCh36',
+};
+
+// Well-characterised SNPs whose coordinates differ between assemblies
+const POSITION_FINGERPRINTS: Record<string, Partial<Record<GenomeBuild, number>>> = {
+  rs429358: { GRCh36: 50103781, GRCh37: 45411941, GRCh38: 44908684 }, // APOE
+  rs7412: { GRCh36: 50103919, GRCh37: 45412079, GRCh38: 44908822 }, // APOE
+  rs1801133: { GRCh36: 11778965, GRCh37: 11856378, GRCh38: 11796321 }, // MTHFR
+  rs4988235: { GRCh36: 136325116, GRCh37: 136608646, GRCh38: 135851076 }, // MCM6/LCT
+  rs12913832: { GRCh36: 26039213, GRCh37: 28365618, GRCh38: 28120472 }, // HERC2
+};
+
+export function detectBuildFromHeader(headerLines: string[]): GenomeBuild | null {
+  for (const line of headerLines) {
+    const contigMatch = line.match(/^##contig=<ID=(?:chr)?1,length=(\d+)/i);
+    if (contigMatch && CHR1_LENGTHS[contigMatch[1]]) {
+      return CHR1_LENGTHS[contigMatch[1]];
+    }
+  }
+
+  // Only lines that talk about the reference/assembly, so sample names or dates can't match
+  const buildLines = headerLines.filter(line => /build|assembly|reference|grch|hg\d\d|ncbi/i.test(line));
+  for (const [pattern, build] of BUILD_HEADER_PATTERNS) {
+    if (buildLines.some(line => pattern.test(line))) {
+      return build;
+    }
+  }
+
+  return null;
+}
+
+export function detectBuildFromPositions(data: GenotypeData[]): GenomeBuild | null {
+  const votes: Partial<Record<GenomeBuild, number>> = {};
+
+  for (const variant of data) {
+    const fingerprint = POSITION_FINGERPRINTS[variant.rsid];
+    if (!fingerprint) continue;
+
+    for (const [build, position] of Object.entries(fingerprint) as Array<[GenomeBuild, number]>) {
+      if (variant.position === position) {
+        votes[build] = (votes[build] ?? 0) + 1;
+      }
+    }
+  }
+
+  const ranked = (Object.entries(votes) as Array<[GenomeBuild, number]>).sort((a, b) => b[1] - a[1]);
+  return ranked.length > 0 ? ranked[0][0] : null;
+}
+
+// Header declarations win, then position fingerprints, then the vendor's usual build
+export function detectGenomeBuild(
+  headerLines: string[],
+  data: GenotypeData[],
+  vendorDefault?: GenomeBuild
+): GenomeBuildDetection | null {
+  const fromHeader = detectBuildFromHeader(headerLines);
+  if (fromHeader) {
+    return { build: fromHeader, source: 'header' };
+  }
+
+  const fromPositions = detectBuildFromPositions(data);
+  if (fromPositions) {
+    return { build: fromPositions, source: 'positions' };
+  }
+  if (vendorDefault) {
+    return { build: vendorDefault, source: 'vendor-default' };
+  }
+  return null;
+}
+
+// Position of a variant on the catalog's build, if known. Variants on other builds
+// carry a lifted position once liftover has run (see lib/liftover.ts).
+export function getCatalogPosition(variant: GenotypeData, build: GenomeBuild | null | undefined): number | undefined {
+  if (build === CATALOG_GENOME_BUILD) {
+    return variant.position;
+  }
+  return variant.positionGRCh38;
+}
@@ -0,0 +1,219 @@
+// Export of the normalized, merged genotype for use in other tools. Files are built and
+// downloaded in the browser, so genotypes never leave the user's machine.
+
+import { ChromosomalSex, GenomeBuild, isNoCallGenotype, splitGenotype } from './genotype-parser';
+import { GenotypeLocus } from './genotype-merge';
+import { SnpAlleleTable } from './strand-resolution';
+
+export type GenotypeExportFormat = 'vcf' | 'plink';
+
+export type GenotypeExportFile = {
+  fileName: string;
+  content: string;
+  mimeType: string;
+};
+
+export type GenotypeExport = {
+  files: GenotypeExportFile[];
+  build: GenomeBuild | null;
+  exported: number;
+  skipped: number; // Variants on another build, without a known reference allele (VCF), or calls the format can't represent
+};
+
+export type GenotypeExportOptions = {
+  sampleName?: string | null;
+  chromosomalSex?: ChromosomalSex;
+  date?: Date;
+  alleleTable?: SnpAlleleTable | null; // Forward-strand reference alleles, for VCF REF/ALT
+};
+
+const CHROMOSOME_ORDER = [...Array.from({ length: 22 }, (_, index) => String(index + 1)), 'X', 'Y', 'MT'];
+
+// PLINK 1.x numeric chromosome codes
+const PLINK_CHROMOSOME_CODES: Record<string, string> = { X: '23', Y: '24', XY: '25', MT: '26' };
+
+const PLINK_SEX_CODES: Record<ChromosomalSex, string> = { XY: '1', XX: '2', unknown: '0' };
+
+type ExportVariant = {
+  id: string;
+  locus: GenotypeLocus;
+  alleles: string[]; // Empty for no-calls
+};
+
+// Unnamed VCF rows were keyed "chromosome:position" when parsed; export them without an ID
+function isPositionKey(id: string): boolean {
+  return /^[0-9XYMT]+:\d+$/i.test(id);
+}
+
+function chromosomeRank(chromosome: string): number {
+  const index = CHROMOSOME_ORDER.indexOf(chromosome);
+  return index === -1 ? CHROMOSOME_ORDER.length : index;
+}
+
+// Files merged from several builds can't share one coordinate system; export the
+// build most variants are on
+function getExportBuild(loci: Map<string, GenotypeLocus>): GenomeBuild | null {
+  const counts = new Map<GenomeBuild | null, number>();
+  loci.forEach(locus => counts.set(locus.build, (counts.get(locus.build) ?? 0) + 1));
+
+  let best: GenomeBuild | null = null;
+  let bestCount = 0;
+  counts.forEach((count, build) => {
+    if (count > bestCount) {
+      best = build;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+function collectVariants(
+  genotypes: Map<string, string>,
+  loci: Map<string, GenotypeLocus>,
+  build: GenomeBuild | null
+): { variants: ExportVariant[]; skipped: number } {
+  const variants: ExportVariant[] = [];
+  let skipped = 0;
+
+  genotypes.forEach((genotype, id) => {
+    const locus = loci.get(id);
+    if (!locus || locus.build !== build) {
+      skipped++;
+      return;
+    }
+    variants.push({ id, locus, alleles: isNoCallGenotype(genotype) ? [] : splitGenotype(genotype.toUpperCase()) });
+  });
+
+  variants.sort((a, b) =>
+    chromosomeRank(a.locus.chromosome) - chromosomeRank(b.locus.chromosome) ||
+    a.locus.position - b.locus.position
+  );
+  return { variants, skipped };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function getFileStem(build: GenomeBuild | null, date: Date): string {
+  return `monadic_dna_genotype_${build ?? 'unknown_build'}_${formatDate(date)}`;
+}
+
+// VCF 4.2. Arrays don't report the reference allele, and downstream tools read GT 0 as
+// the reference genome's allele, so REF/ALT come from the forward-strand allele table.
+// Sites without an entry, calls that aren't one of the entry's alleles and I/D calls
+// (no base sequence) are left out rather than given a made-up REF.
+export function buildVCF(
+  genotypes: Map<string, string>,
+  loci: Map<string, GenotypeLocus>,
+  { sampleName, date = new Date(), alleleTable = null }: GenotypeExportOptions = {}
+): GenotypeExport {
+  const build = getExportBuild(loci);
+  const { variants, skipped: offBuild } = collectVariants(genotypes, loci, build);
+  const chromosomes = Array.from(new Set(variants.map(variant => variant.locus.chromosome)));
+  const sample = (sampleName || 'SAMPLE').replace(/\s+/g, '_');
+
+  const lines = [
+    '##fileformat=VCFv4.2',
+    `##fileDate=${formatDate(date).replace(/-/g, '')}`,
+    '##source=MonadicDNAExplorer',
+    ...(build ? [`##reference=${build}`] : []),
+    ...chromosomes.map(chromosome => `##contig=<ID=${chromosome}${build ? `,assembly=${build}` : ''}>`),
+    '##FORMAT=<ID=GT,Number=1,Type=String,Description="Genotype">',
+    ['#CHROM', 'POS', 'ID', 'REF', 'ALT', 'QUAL', 'FILTER', 'INFO', 'FORMAT', sample].join('\t'),
+  ];
+
+  let exported = 0;
+  let skipped = offBuild;
+  for (const { id, locus, alleles } of variants) {
+    const reference = alleleTable?.get(id);
+    const codes = reference ? [reference.ref, reference.alt] : [];
+    if (!reference || alleles.some(allele => !codes.includes(allele))) {
+      skipped++;
+      continue;
+    }
+
+    const gt = alleles.length === 0
+      ? './.'
+      : alleles.map(allele => codes.indexOf(allele)).join('/');
+
+    lines.push([
+      locus.chromosome,
+      locus.position,
+      isPositionKey(id) ? '.' : id,
+      reference.ref,
+      reference.alt,
+      '.',
+      '.',
+      '.',
+      'GT',
+      gt,
+    ].join('\t'));
+    exported++;
+  }
+
+  return {
+    files: [{ fileName: `${getFileStem(build, date)}.vcf`, content: lines.join('\n') + '\n', mimeType: 'text/plain' }],
+    build,
+    exported,
+    skipped,
+  };
+}
+
+// PLINK 1.x text fileset: one .ped row for the sample and a .map line per variant.
+// Hemizygous calls are written as homozygous, the PLINK convention for haploid sites.
+export function buildPlink(
+  genotypes: Map<string, string>,
+  loci: Map<string, GenotypeLocus>,
+  { sampleName, chromosomalSex = 'unknown', date = new Date() }: GenotypeExportOptions = {}
+): GenotypeExport {
+  const build = getExportBuild(loci);
+  const { variants, skipped } = collectVariants(genotypes, loci, build);
+  const sample = (sampleName || 'SAMPLE').replace(/\s+/g, '_');
+
+  const mapLines = variants.map(({ id, locus }) => [
+    PLINK_CHROMOSOME_CODES[locus.chromosome] ?? locus.chromosome,
+    isPositionKey(id) ? `${locus.chromosome}:${locus.position}` : id,
+    '0',
+    locus.position,
+  ].join('\t'));
+
+  const calls = variants.map(({ alleles }) => {
+    if (alleles.length === 0) return '0 0';
+    return alleles.length === 1 ? `${alleles[0]} ${alleles[0]}` : `${alleles[0]} ${alleles[1]}`;
+  });
+  const pedLine = [sample, sample, '0', '0', PLINK_SEX_CODES[chromosomalSex], '-9', ...calls].join(' ');
+
+  const stem = getFileStem(build, date);
+  return {
+    files: [
+      { fileName: `${stem}.ped`, content: pedLine + '\n', mimeType: 'text/plain' },
+      { fileName: `${stem}.map`, content: mapLines.join('\n') + '\n', mimeType: 'text/plain' },
+    ],
+    build,
+    exported: variants.length,
+    skipped,
+  };
+}
+
+// Browsers can cancel a download whose object URL is revoked straight after click(), and
+// may block a second download started in the same tick, so files start a moment apart
+// and their URLs are released once the downloads have had time to begin
+const DOWNLOAD_INTERVAL_MS = 500;
+const REVOKE_DELAY_MS = 60_000;
+
+export function downloadExportFiles(files: GenotypeExportFile[]): void {
+  files.forEach((file, index) => {
+    window.setTimeout(() => {
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+    }, index * DOWNLOAD_INTERVAL_MS);
+  });
+}
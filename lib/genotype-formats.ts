@@ -0,0 +1,307 @@
+// Genotype format registry. Each format declares a sniff function that scores the
+// first lines of a file, a line parser, and display metadata. Detection picks the
+// highest-scoring format instead of walking a fixed cascade, so in-house formats can
+// be added with registerGenotypeFormat() without touching the built-in ones.
+//
+// Parsing runs in a Web Worker (lib/genotype-parser.worker.ts), so custom formats must
+// be registered in a module the worker imports - see lib/custom-genotype-formats.ts.
+
+import {
+  create23andMeParser,
+  createAncestryDNAParser,
+  createFamilyTreeDNAParser,
+  createLivingDNAParser,
+  createMonadicDNAParser,
+  createMyHeritageParser,
+  createVCFParser,
+  GenomeBuild,
+  GenotypeFormatDetection,
+  GenotypeFormatId,
+  GenotypeLineParser,
+  isVendorCSVHeader,
+  parseLines,
+  ParseResult,
+} from './genotype-parser';
+import { detectGenomeBuild } from './genome-build';
+import { detectGenotypingChip } from './chip-detection';
+
+export type GenotypeFormatDefinition = {
+  id: GenotypeFormatId;
+  label: string; // Shown to users, e.g. "detected as 23andMe"
+  vendor: string;
+  expectedBuild?: GenomeBuild; // Build the vendor normally reports positions on
+  // Score 0-1 for how likely the leading lines come from this format
+  sniff: (lines: string[]) => number;
+  createParser: () => GenotypeLineParser;
+};
+
+// Number of leading lines passed to sniff functions
+export const DETECTION_LINE_COUNT = 20;
+
+// Comment/meta lines kept for genome build detection (VCF contig lists run long)
+const MAX_HEADER_LINES = 5000;
+
+// Confidence needed to trust the best-scoring format outright; below it every
+// plausible format is parsed and the most confident successful one wins
+const CONFIDENT_DETECTION = 0.5;
+
+function getConfidenceLevel(confidence: number): GenotypeFormatDetection['confidenceLevel'] {
+  if (confidence >= 0.8) return 'high';
+  if (confidence >= CONFIDENT_DETECTION) return 'medium';
+  return 'low';
+}
+
+function getCommentText(lines: string[]): string {
+  return lines.filter(line => line.trim().startsWith('#')).join('\n').toLowerCase();
+}
+
+function getDataRows(lines: string[]): string[] {
+  return lines.map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+}
+
+// Fraction of data rows that match the expected row shape
+function rowShapeScore(lines: string[], isValidRow: (row: string) => boolean): number {
+  const rows = getDataRows(lines);
+  if (rows.length === 0) {
+    return 0;
+  }
+  return rows.filter(isValidRow).length / rows.length;
+}
+
+// Data row following the RSID,CHROMOSOME,POSITION,RESULT header, if present
+function getFirstCSVDataRow(lines: string[]): string | null {
+  const headerIndex = lines.findIndex(line => isVendorCSVHeader(line));
+  if (headerIndex === -1) {
+    return null;
+  }
+  return lines.slice(headerIndex + 1).find(line => line.trim().length > 0)?.trim() ?? '';
+}
+
+const builtInFormats: GenotypeFormatDefinition[] = [
+  {
+    id: 'vcf',
+    label: 'VCF',
+    vendor: 'Sequencing provider',
+    // Build is declared in the VCF header rather than implied by the vendor
+    sniff: (lines) => {
+      // Mandatory ##fileformat line comes first
+      if (lines[0]?.trim().startsWith('##fileformat=VCF')) return 1;
+      if (lines.some(line => line.startsWith('#CHROM\tPOS\tID\tREF\tALT'))) return 0.9;
+      return 0;
+    },
+    createParser: () => createVCFParser(),
+  },
+  {
+    id: '23andme',
+    label: '23andMe',
+    vendor: '23andMe',
+    expectedBuild: 'GRCh37',
+    sniff: (lines) => {
+      // rsid, chromosome, position and a two-character genotype, whitespace separated
+      const shape = rowShapeScore(lines, row => {
+        const parts = row.split(/\s+/);
+        return parts.length === 4 && /^[ACGTID-]{1,2}$/.test(parts[3]);
+      });
+      if (shape === 0) return 0;
+      if (getCommentText(lines).includes('23andme')) return 0.95;
+      // Comment blocks are common to several vendors, so they only add a little
+      return lines.some(line => line.trim().startsWith('#')) ? 0.5 + shape * 0.2 : shape * 0.5;
+    },
+    createParser: create23andMeParser,
+  },
+  {
+    id: 'ancestrydna',
+    label: 'AncestryDNA',
+    vendor: 'AncestryDNA',
+    expectedBuild: 'GRCh37',
+    sniff: (lines) => {
+      const hasHeader = lines.some(line => {
+        const lower = line.trim().toLowerCase();
+        return lower.includes('rsid') &&
+               lower.includes('chromosome') &&
+               lower.includes('position') &&
+               lower.includes('allele1') &&
+               lower.includes('allele2');
+      });
+      if (!hasHeader) return 0;
+      return getCommentText(lines).includes('ancestrydna') ? 0.95 : 0.9;
+    },
+    createParser: createAncestryDNAParser,
+  },
+  {
+    id: 'myheritage',
+    label: 'MyHeritage',
+    vendor: 'MyHeritage',
+    expectedBuild: 'GRCh37',
+    sniff: (lines) => {
+      if (getCommentText(lines).includes('myheritage')) return 0.95;
+      return 0;
+    },
+    createParser: createMyHeritageParser,
+  },
+  {
+    id: 'ftdna',
+    label: 'FamilyTreeDNA',
+    vendor: 'FamilyTreeDNA',
+    expectedBuild: 'GRCh37',
+    sniff: (lines) => {
+      // Same header as Monadic DNA, but every data field is double-quoted
+      const firstDataRow = getFirstCSVDataRow(lines);
+      if (firstDataRow === null) return 0;
+      if (getCommentText(lines).includes('familytreedna')) return 0.95;
+      return firstDataRow.startsWith('"') ? 0.8 : 0.1;
+    },
+    createParser: createFamilyTreeDNAParser,
+  },
+  {
+    id: 'livingdna',
+    label: 'LivingDNA',
+    vendor: 'LivingDNA',
+    expectedBuild: 'GRCh37',
+    sniff: (lines) => {
+      const commentText = getCommentText(lines);
+      if (commentText.includes('living dna') || commentText.includes('livingdna')) return 0.95;
+      return 0;
+    },
+    createParser: createLivingDNAParser,
+  },
+  {
+    id: 'monadic',
+    label: 'Monadic DNA',
+    vendor: 'Monadic DNA',
+    sniff: (lines) => {
+      // Bare (unquoted) RSID,CHROMOSOME,POSITION,RESULT rows, often with GSA- probe IDs
+      const firstDataRow = getFirstCSVDataRow(lines);
+      if (firstDataRow === null || firstDataRow.startsWith('"')) return 0;
+      return lines.some(line => line.startsWith('GSA-')) ? 0.95 : 0.85;
+    },
+    createParser: createMonadicDNAParser,
+  },
+];
+
+const registeredFormats: GenotypeFormatDefinition[] = [...builtInFormats];
+
+// Register an additional format. Re-registering an id replaces the earlier definition.
+export function registerGenotypeFormat(format: GenotypeFormatDefinition): void {
+  const existingIndex = registeredFormats.findIndex(candidate => candidate.id === format.id);
+  if (existingIndex === -1) {
+    registeredFormats.push(format);
+  } else {
+    registeredFormats[existingIndex] = format;
+  }
+}
+
+export function getGenotypeFormats(): readonly GenotypeFormatDefinition[] {
+  return registeredFormats;
+}
+
+type ScoredFormat = {
+  format: GenotypeFormatDefinition;
+  confidence: number;
+};
+
+// Score every registered format against the leading lines, most confident first
+export function scoreGenotypeFormats(lines: string[]): ScoredFormat[] {
+  return registeredFormats
+    .map(format => {
+      let confidence = 0;
+      try {
+        confidence = Math.min(1, Math.max(0, format.sniff(lines)));
+      } catch {
+        // A broken sniff function from a custom format shouldn't take detection down
+      }
+      return { format, confidence };
+    })
+    .filter(scored => scored.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+function toDetection({ format, confidence }: ScoredFormat): GenotypeFormatDetection {
+  return {
+    formatId: format.id,
+    label: format.label,
+    vendor: format.vendor,
+    expectedBuild: format.expectedBuild,
+    confidence,
+    confidenceLevel: getConfidenceLevel(confidence),
+  };
+}
+
+// Auto-detecting line parser: buffers the first lines until the format can be sniffed,
+// then hands every line to the chosen parser. When no format is confident, each
+// plausible format parses the file and the most confident successful one wins.
+export function createGenotypeFileParser(): GenotypeLineParser {
+  const leadingLines: string[] = [];
+  const headerLines: string[] = [];
+  let inHeader = true;
+  let candidates: Array<ScoredFormat & { parser: GenotypeLineParser }> | null = null;
+
+  const selectParsers = () => {
+    const scored = scoreGenotypeFormats(leadingLines);
+    const selected = scored.length > 0 && scored[0].confidence >= CONFIDENT_DETECTION
+      ? scored.slice(0, 1)
+      : scored;
+
+    candidates = selected.map(candidate => ({ ...candidate, parser: candidate.format.createParser() }));
+    for (const line of leadingLines) {
+      candidates.forEach(candidate => candidate.parser.pushLine(line));
+    }
+  };
+
+  return {
+    pushLine(line) {
+      if (inHeader) {
+        if (line.startsWith('#') && headerLines.length < MAX_HEADER_LINES) {
+          headerLines.push(line);
+        } else if (line.trim() && !line.startsWith('#')) {
+          inHeader = false;
+        }
+      }
+
+      if (candidates) {
+        candidates.forEach(candidate => candidate.parser.pushLine(line));
+        return;
+      }
+
+      leadingLines.push(line);
+      if (leadingLines.length === DETECTION_LINE_COUNT) {
+        selectParsers();
+      }
+    },
+
+    finish() {
+      if (!candidates) {
+        selectParsers();
+      }
+
+      const results = candidates!.map(candidate => ({ candidate, result: candidate.parser.finish() }));
+
+      // A single confidently detected format reports its own error
+      const match = results.length === 1
+        ? results[0]
+        : results.find(({ result }) => result.success);
+
+      if (!match) {
+        const supported = registeredFormats.map(format => format.label).join(', ');
+        return {
+          success: false,
+          error: `Unable to detect file format. Supported formats: ${supported}`,
+        };
+      }
+
+      const genomeBuild = match.result.success
+        ? detectGenomeBuild(headerLines, match.result.data ?? [], match.candidate.format.expectedBuild) ?? undefined
+        : undefined;
+
+      const chip = match.result.success
+        ? detectGenotypingChip(match.candidate.format.id, headerLines, match.result.data ?? [], genomeBuild?.build) ?? undefined
+        : undefined;
+
+      return { ...match.result, detection: toDetection(match.candidate), genomeBuild, chip };
+    },
+  };
+}
+
+export function detectAndParseGenotypeFile(content: string): ParseResult {
+  return parseLines(createGenotypeFileParser(), content);
+}
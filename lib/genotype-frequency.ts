@@ -0,0 +1,81 @@
+// Expected genotype frequencies under Hardy-Weinberg equilibrium, from the catalog's
+// risk_allele_frequency, and where a combined score falls among the genotypes they imply.
+// Frequencies describe the study population, which may differ from the user's ancestry.
+
+export type FrequencyWeightedVariant = {
+  weight: number; // Per-allele effect
+  riskAlleleCount: number;
+  riskAlleleFrequency: number;
+  ploidy: 1 | 2;
+};
+
+// Up to this many variants the score distribution is enumerated exactly (3^n genotypes);
+// beyond it a normal approximation is close enough
+const EXACT_ENUMERATION_LIMIT = 10;
+
+// Frequencies of carrying 0..ploidy copies of an allele at frequency p
+export function getGenotypeFrequencies(riskAlleleFrequency: number, ploidy: 1 | 2 = 2): number[] {
+  const p = riskAlleleFrequency;
+  return ploidy === 1 ? [1 - p, p] : [(1 - p) * (1 - p), 2 * p * (1 - p), p * p];
+}
+
+// Share of the study population expected to carry the same number of risk alleles
+export function getGenotypeShare(riskAlleleFrequency: number, riskAlleleCount: number, ploidy: 1 | 2 = 2): number {
+  return getGenotypeFrequencies(riskAlleleFrequency, ploidy)[riskAlleleCount] ?? 0;
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const polynomial = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - polynomial * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function exactPercentile(variants: FrequencyWeightedVariant[], score: number): number {
+  // Score -> probability, convolved one variant at a time
+  let distribution = new Map<number, number>([[0, 1]]);
+  for (const variant of variants) {
+    const next = new Map<number, number>();
+    const frequencies = getGenotypeFrequencies(variant.riskAlleleFrequency, variant.ploidy);
+    distribution.forEach((probability, partial) => {
+      frequencies.forEach((frequency, copies) => {
+        // Rounded so sums reached in a different order land on the same key
+        const value = Math.round((partial + variant.weight * copies) * 1e9) / 1e9;
+        next.set(value, (next.get(value) ?? 0) + probability * frequency);
+      });
+    });
+    distribution = next;
+  }
+
+  // Mid-rank: people with exactly the same score count half below
+  const rounded = Math.round(score * 1e9) / 1e9;
+  let below = 0;
+  let equal = 0;
+  distribution.forEach((probability, value) => {
+    if (value < rounded) below += probability;
+    else if (value === rounded) equal += probability;
+  });
+  return below + equal / 2;
+}
+
+// Percentile (0-100) of the user's score among people whose genotypes follow each
+// variant's risk allele frequency, assuming the variants are inherited independently
+export function estimateScorePercentile(variants: FrequencyWeightedVariant[]): number | null {
+  if (variants.length === 0) {
+    return null;
+  }
+
+  const score = variants.reduce((sum, variant) => sum + variant.weight * variant.riskAlleleCount, 0);
+  if (variants.length <= EXACT_ENUMERATION_LIMIT) {
+    return exactPercentile(variants, score) * 100;
+  }
+
+  let mean = 0;
+  let variance = 0;
+  for (const { weight, riskAlleleFrequency: p, ploidy } of variants) {
+    mean += weight * ploidy * p;
+    variance += weight * weight * ploidy * p * (1 - p);
+  }
+  return variance > 0 ? normalCdf((score - mean) / Math.sqrt(variance)) * 100 : 50;
+}
@@ -0,0 +1,170 @@
+// Combines genotype files from several vendors into one profile. Chips cover different
+// SNPs, so the union gives better coverage; SNPs typed on more than one chip are
+// compared to measure concordance, which also catches files from different people.
+
+import { GenomeBuild, GenotypeData, isNoCallGenotype, splitGenotype } from './genotype-parser';
+import { CATALOG_GENOME_BUILD, getCatalogPosition } from './genome-build';
+import { getPositionKey, PositionIndex } from './snp-utils';
+
+// Same-person files from different chips typically agree on >99% of shared calls,
+// while unrelated people agree on roughly half
+export const LOW_CONCORDANCE_THRESHOLD = 0.9;
+
+// Below this many shared calls the concordance rate is too noisy to warn on
+const MIN_OVERLAP_FOR_WARNING = 100;
+
+// Discordant calls kept for display
+const MAX_DISCORDANT_SAMPLES = 50;
+
+// Merged call for variants the files disagree on
+const DISCORDANT_GENOTYPE = '--';
+
+export type DiscordantCall = {
+  rsid: string;
+  calls: Array<{ sourceIndex: number; genotype: string }>;
+};
+
+export type ConcordanceReport = {
+  overlapping: number; // Variants called in more than one file
+  concordant: number;
+  discordant: number;
+  rate: number | null; // concordant / overlapping, null without overlap
+  discordantCalls: DiscordantCall[]; // First few, for display
+  likelyDifferentPeople: boolean;
+};
+
+// Where a variant sits, on GRCh38 when the file was on it or lifted cleanly
+export type GenotypeLocus = {
+  chromosome: string;
+  position: number;
+  build: GenomeBuild | null; // null when the file's build couldn't be determined
+};
+
+export type GenotypeProfile = {
+  genotypes: Map<string, string>; // Merged rsid -> genotype lookup
+  loci: Map<string, GenotypeLocus>; // rsid -> locus, for exports
+  provenance: Map<string, number>; // rsid -> bitmask of the source files that called it
+  positionIndex: PositionIndex;
+  discordantRsids: Set<string>; // Merged to a no-call because the files disagree
+  concordance: ConcordanceReport;
+  sourceCount: number;
+};
+
+export function createGenotypeProfile(): GenotypeProfile {
+  return {
+    genotypes: new Map(),
+    loci: new Map(),
+    provenance: new Map(),
+    positionIndex: new Map(),
+    discordantRsids: new Set(),
+    concordance: {
+      overlapping: 0,
+      concordant: 0,
+      discordant: 0,
+      rate: null,
+      discordantCalls: [],
+      likelyDifferentPeople: false,
+    },
+    sourceCount: 0,
+  };
+}
+
+// Order-insensitive comparison key. Hemizygous single-allele calls ("A") compare equal
+// to the homozygous form ("AA") that chips report for the same site.
+function normalizeGenotype(genotype: string): string {
+  const alleles = splitGenotype(genotype.toUpperCase());
+  const diploid = alleles.length === 1 ? [alleles[0], alleles[0]] : alleles;
+  return [...diploid].sort().join('/');
+}
+
+export function genotypesAgree(a: string, b: string): boolean {
+  return normalizeGenotype(a) === normalizeGenotype(b);
+}
+
+// Source indexes recorded in a provenance bitmask
+export function getSourceIndexes(mask: number): number[] {
+  const indexes: number[] = [];
+  for (let index = 0; mask >> index; index++) {
+    if ((mask >> index) & 1) {
+      indexes.push(index);
+    }
+  }
+  return indexes;
+}
+
+// Add one file's calls to a profile, returning a new profile. Where files disagree the
+// merged call becomes a no-call, since neither can be trusted over the other.
+export function addGenotypeSource(
+  profile: GenotypeProfile,
+  data: GenotypeData[],
+  build: GenomeBuild | null | undefined
+): GenotypeProfile {
+  const sourceIndex = profile.sourceCount;
+  const sourceBit = 1 << sourceIndex;
+  const genotypes = new Map(profile.genotypes);
+  const loci = new Map(profile.loci);
+  const provenance = new Map(profile.provenance);
+  const positionIndex = new Map(profile.positionIndex);
+  const discordantRsids = new Set(profile.discordantRsids);
+  const concordance = { ...profile.concordance, discordantCalls: [...profile.concordance.discordantCalls] };
+
+  for (const variant of data) {
+    const existing = genotypes.get(variant.rsid);
+    const existingSources = provenance.get(variant.rsid) ?? 0;
+    // Repeated rows within one file (e.g. multi-allelic VCF sites) keep the first call
+    if (existingSources & sourceBit) continue;
+    provenance.set(variant.rsid, existingSources | sourceBit);
+
+    let merged = variant.genotype;
+    if (discordantRsids.has(variant.rsid)) {
+      merged = DISCORDANT_GENOTYPE;
+    } else if (existing !== undefined && !isNoCallGenotype(existing)) {
+      if (isNoCallGenotype(variant.genotype)) {
+        merged = existing;
+      } else {
+        concordance.overlapping++;
+        if (genotypesAgree(existing, variant.genotype)) {
+          concordance.concordant++;
+          merged = existing;
+        } else {
+          concordance.discordant++;
+          discordantRsids.add(variant.rsid);
+          merged = DISCORDANT_GENOTYPE;
+          if (concordance.discordantCalls.length < MAX_DISCORDANT_SAMPLES) {
+            concordance.discordantCalls.push({
+              rsid: variant.rsid,
+              calls: [
+                ...getSourceIndexes(existingSources).map(index => ({ sourceIndex: index, genotype: existing })),
+                { sourceIndex, genotype: variant.genotype },
+              ],
+            });
+          }
+        }
+      }
+    }
+    genotypes.set(variant.rsid, merged);
+
+    const position = getCatalogPosition(variant, build);
+    // Prefer a catalog-build locus over one another file reported on an older build
+    if (!loci.has(variant.rsid) || (position !== undefined && loci.get(variant.rsid)!.build !== CATALOG_GENOME_BUILD)) {
+      loci.set(variant.rsid, position !== undefined
+        ? { chromosome: variant.chromosome, position, build: CATALOG_GENOME_BUILD }
+        : { chromosome: variant.chromosome, position: variant.position, build: build ?? null });
+    }
+
+    if (position !== undefined) {
+      const key = getPositionKey(variant.chromosome, position);
+      const existingAtPosition = positionIndex.get(key);
+      if (existingAtPosition === undefined || isNoCallGenotype(existingAtPosition) || discordantRsids.has(variant.rsid)) {
+        positionIndex.set(key, merged);
+      }
+    }
+  }
+
+  concordance.rate = concordance.overlapping > 0 ? concordance.concordant / concordance.overlapping : null;
+  concordance.likelyDifferentPeople = concordance.rate !== null &&
+    concordance.overlapping >= MIN_OVERLAP_FOR_WARNING &&
+    concordance.rate < LOW_CONCORDANCE_THRESHOLD;
+
+  return { genotypes, loci, provenance, positionIndex, discordantRsids, concordance, sourceCount: sourceIndex + 1 };
+}
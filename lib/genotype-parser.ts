@@ -3,6 +3,79 @@ export type GenotypeData = {
   chromosome: string;
   position: number;
   genotype: string;
+  quality?: number; // Genotype quality (VCF GQ field)
+  depth?: number; // Read depth (VCF DP field)
+  positionGRCh38?: number; // Lifted position when the file is on an older build (see lib/liftover.ts)
+};
+
+// Built-in formats; in-house formats registered through lib/genotype-formats.ts use their own ids
+export type GenotypeFormat = 'monadic' | '23andme' | 'ancestrydna' | 'myheritage' | 'ftdna' | 'livingdna' | 'vcf';
+export type GenotypeFormatId = GenotypeFormat | (string & {});
+
+export type GenomeBuild = 'GRCh36' | 'GRCh37' | 'GRCh38';
+
+export type GenomeBuildDetection = {
+  build: GenomeBuild;
+  source: 'header' | 'positions' | 'vendor-default';
+};
+
+// Chromosomal sex inferred from the genotypes (see lib/sex-inference.ts)
+export type ChromosomalSex = 'XX' | 'XY' | 'unknown';
+
+export type SexInference = {
+  sex: ChromosomalSex;
+  xHeterozygosity: number | null; // Heterozygous share of called non-PAR X SNPs
+  yCallRate: number | null; // Called share of Y markers in the file
+  xCalls: number;
+  yMarkers: number;
+};
+
+// Likely genotyping array (see lib/chip-detection.ts)
+export type GenotypeChipDetection = {
+  chip: string; // e.g. "23andMe v5 (Illumina GSA)"
+  source: 'header' | 'marker-set' | 'variant-count';
+};
+
+export type LiftoverSummary = {
+  from: GenomeBuild;
+  to: GenomeBuild;
+  chainAvailable: boolean; // False when the chain file isn't installed; positions are left as-is
+  lifted: number;
+  unmapped: number;
+};
+
+export type GenotypeFormatDetection = {
+  formatId: GenotypeFormatId;
+  label: string;
+  vendor: string;
+  expectedBuild?: GenomeBuild;
+  confidence: number; // 0-1 score from the format's sniff function
+  confidenceLevel: 'high' | 'medium' | 'low';
+};
+
+// Why a data row was skipped while parsing
+export type RejectionReason =
+  | 'non-rs-id'
+  | 'invalid-chromosome'
+  | 'invalid-position'
+  | 'invalid-genotype'
+  | 'wrong-column-count';
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  'non-rs-id': 'Not an rsID and no chromosome position',
+  'invalid-chromosome': 'Unrecognized chromosome',
+  'invalid-position': 'Invalid position',
+  'invalid-genotype': 'Invalid allele characters',
+  'wrong-column-count': 'Wrong number of columns',
+};
+
+export type RejectionSummary = {
+  count: number;
+  samples: Array<{ line: number; value: string }>; // First few offending lines
+};
+
+export type ParseDiagnostics = {
+  rejections: Partial<Record<RejectionReason, RejectionSummary>>;
 };
 
 export type ParseResult = {
@@ -11,22 +84,117 @@ export type ParseResult = {
   error?: string;
   totalVariants?: number;
   validVariants?: number;
-  detectedFormat?: 'monadic' | '23andme' | 'ancestrydna';
+  detectedFormat?: GenotypeFormatId;
+  detection?: GenotypeFormatDetection; // Set by format auto-detection
+  sampleName?: string; // Sample the genotypes were read from (multi-sample VCFs)
+  availableSamples?: string[];
+  diagnostics?: ParseDiagnostics;
+  genomeBuild?: GenomeBuildDetection;
+  liftover?: LiftoverSummary;
+  sexInference?: SexInference;
+  chip?: GenotypeChipDetection;
 };
 
-export function parse23andMeFile(content: string): ParseResult {
+// Parsers consume a file one line at a time so large files can be streamed
+// (see lib/genotype-stream.ts) instead of being split into one giant array.
+// Format detection lives in lib/genotype-formats.ts.
+export type GenotypeLineParser = {
+  pushLine: (line: string) => void;
+  finish: () => ParseResult;
+};
+
+// Split a genotype string into its alleles. Most genotypes are two single-base
+// characters ("AG"), while VCF indel/MNP calls separate alleles with '/' ("A/AT").
+export function splitGenotype(genotype: string): string[] {
+  return genotype.includes('/') ? genotype.split('/') : genotype.split('');
+}
+
+// Vendors mark no-calls as "--", "-", "00" or "0", and VCF rows with missing GT come
+// through empty. Shared by QC, coverage, merging, export and scoring so they all agree.
+export function isNoCallGenotype(genotype: string): boolean {
+  return genotype.length === 0 || /^[-0]+$/.test(genotype);
+}
+
+export type VCFParseOptions = {
+  sampleName?: string; // Defaults to the first sample column
+};
+
+// Valid chromosomes (1-22, X, Y, MT)
+const STANDARD_CHROMOSOMES = new Set(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10',
+  '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '21', '22', 'X', 'Y', 'MT']);
+
+// Numeric sex and mitochondrial codes (AncestryDNA, PLINK). 25 is the X/Y pseudoautosomal
+// region, which sits on X in reference coordinates. Normalized before validation so these
+// rows aren't reported as unrecognized chromosomes.
+const CHROMOSOME_CODES: Record<string, string> = { '23': 'X', '24': 'Y', '25': 'X', '26': 'MT', XY: 'X', M: 'MT' };
+
+function normalizeChromosomeCode(chromosome: string): string {
+  return CHROMOSOME_CODES[chromosome] ?? chromosome;
+}
+
+// Chromosomes a male carries one copy of; vendors report a single allele ("A") there
+export const HEMIZYGOUS_CHROMOSOMES = new Set(['X', 'Y', 'MT']);
+
+// Two-allele call, or a single allele on a hemizygous chromosome
+function isValidCall(genotype: string, chromosome: string, validBases: Set<string>): boolean {
+  const expectedLength = genotype.length === 1 && HEMIZYGOUS_CHROMOSOMES.has(chromosome) ? 1 : 2;
+  return genotype.length === expectedLength && [...genotype].every(base => validBases.has(base));
+}
+
+// Sample lines kept per rejection reason
+const MAX_REJECTION_SAMPLES = 5;
+
+function createRejectionCollector() {
+  const diagnostics: ParseDiagnostics = { rejections: {} };
+  return {
+    diagnostics,
+    reject: (reason: RejectionReason, line: number, value: string) => {
+      const summary = diagnostics.rejections[reason] ??= { count: 0, samples: [] };
+      summary.count++;
+      if (summary.samples.length < MAX_REJECTION_SAMPLES) {
+        summary.samples.push({ line, value: value.slice(0, 80) });
+      }
+    },
+  };
+}
+
+function parseFailure(error: unknown): ParseResult {
+  return {
+    success: false,
+    error: `Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+  };
+}
+
+// Run a line parser over an in-memory file
+export function parseLines(parser: GenotypeLineParser, content: string): ParseResult {
   try {
-    const lines = content.split('\n');
-    const genotypeData: GenotypeData[] = [];
-    let totalVariants = 0;
-    let validVariants = 0;
+    for (const line of content.split('\n')) {
+      parser.pushLine(line);
+    }
+    return parser.finish();
+  } catch (error) {
+    return parseFailure(error);
+  }
+}
+
+export function create23andMeParser(): GenotypeLineParser {
+  const genotypeData: GenotypeData[] = [];
+  let totalVariants = 0;
+  let validVariants = 0;
+  let lineNumber = 0;
+  const rejections = createRejectionCollector();
 
-    for (const line of lines) {
+  // Valid alleles (A, T, G, C, I, D, or -); two per call, or one on X/Y/MT for males
+  const validBases = new Set(['A', 'T', 'G', 'C', 'I', 'D', '-']);
+
+  return {
+    pushLine(line) {
+      lineNumber++;
       const trimmedLine = line.trim();
 
       // Skip empty lines and comments
       if (!trimmedLine || trimmedLine.startsWith('#')) {
-        continue;
+        return;
       }
 
       totalVariants++;
@@ -34,35 +202,25 @@ export function parse23andMeFile(content: string): ParseResult {
 
       // Expected format: rsid chromosome position genotype
       if (parts.length !== 4) {
-        continue;
+        return rejections.reject('wrong-column-count', lineNumber, trimmedLine);
       }
 
-      const [rsid, chromosome, positionStr, genotype] = parts;
-
-      // Validate rsid format (should start with rs)
-      if (!rsid.startsWith('rs')) {
-        continue;
-      }
+      const [rsid, chromosomeCode, positionStr, genotype] = parts;
+      const chromosome = normalizeChromosomeCode(chromosomeCode);
 
-      // Validate chromosome (1-22, X, Y, MT)
-      const validChromosomes = new Set(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10',
-        '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '21', '22', 'X', 'Y', 'MT']);
-      if (!validChromosomes.has(chromosome)) {
-        continue;
+      // IDs other than rsIDs (e.g. 23andMe i-prefixed probes) are kept for position matching
+      if (!STANDARD_CHROMOSOMES.has(chromosome)) {
+        return rejections.reject('invalid-chromosome', lineNumber, chromosomeCode);
       }
 
       // Validate position (should be a positive integer)
       const position = parseInt(positionStr, 10);
       if (!Number.isInteger(position) || position <= 0) {
-        continue;
+        return rejections.reject('invalid-position', lineNumber, positionStr);
       }
 
-      // Validate genotype (should be 2 characters, A, T, G, C, I, D, or --)
-      const validBases = new Set(['A', 'T', 'G', 'C', 'I', 'D', '-']);
-      if (genotype.length !== 2 ||
-          !validBases.has(genotype[0]) ||
-          !validBases.has(genotype[1])) {
-        continue;
+      if (!isValidCall(genotype, chromosome, validBases)) {
+        return rejections.reject('invalid-genotype', lineNumber, genotype);
       }
 
       genotypeData.push({
@@ -73,55 +231,62 @@ export function parse23andMeFile(content: string): ParseResult {
       });
 
       validVariants++;
-    }
+    },
+
+    finish() {
+      if (validVariants === 0) {
+        return {
+          success: false,
+          error: 'No valid genotype data found in file. Please ensure the file is in 23andMe format.',
+          diagnostics: rejections.diagnostics,
+        };
+      }
 
-    if (validVariants === 0) {
       return {
-        success: false,
-        error: 'No valid genotype data found in file. Please ensure the file is in 23andMe format.',
+        success: true,
+        data: genotypeData,
+        totalVariants,
+        validVariants,
+        diagnostics: rejections.diagnostics,
+        detectedFormat: '23andme',
       };
-    }
+    },
+  };
+}
 
-    return {
-      success: true,
-      data: genotypeData,
-      totalVariants,
-      validVariants,
-      detectedFormat: '23andme',
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: `Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    };
-  }
+export function parse23andMeFile(content: string): ParseResult {
+  return parseLines(create23andMeParser(), content);
 }
 
-export function parseMonadicDNAFile(content: string): ParseResult {
-  try {
-    const lines = content.split('\n');
-    const genotypeData: GenotypeData[] = [];
-    let totalVariants = 0;
-    let validVariants = 0;
-    let headerFound = false;
+export function createMonadicDNAParser(): GenotypeLineParser {
+  const genotypeData: GenotypeData[] = [];
+  let totalVariants = 0;
+  let validVariants = 0;
+  let lineNumber = 0;
+  const rejections = createRejectionCollector();
+  let headerFound = false;
+
+  const validBases = new Set(['A', 'T', 'G', 'C', '-']);
 
-    for (const line of lines) {
+  return {
+    pushLine(line) {
+      lineNumber++;
       const trimmedLine = line.trim();
 
       // Skip empty lines
       if (!trimmedLine) {
-        continue;
+        return;
       }
 
       // Check for header line
       if (trimmedLine.toUpperCase().startsWith('RSID,CHROMOSOME,POSITION,RESULT')) {
         headerFound = true;
-        continue;
+        return;
       }
 
       // Skip if we haven't found the header yet
       if (!headerFound) {
-        continue;
+        return;
       }
 
       totalVariants++;
@@ -129,31 +294,26 @@ export function parseMonadicDNAFile(content: string): ParseResult {
 
       // Expected format: RSID,CHROMOSOME,POSITION,RESULT
       if (parts.length !== 4) {
-        continue;
+        return rejections.reject('wrong-column-count', lineNumber, trimmedLine);
       }
 
       const [rsid, chromosome, positionStr, genotype] = parts;
 
-      // Skip entries without valid rsid (must start with rs)
-      // GSA- and -Y- entries are internal IDs, not standard rsids
-      if (!rsid.startsWith('rs')) {
-        continue;
-      }
-
       // Parse position (can be 0 for Monadic DNA files)
       const position = parseInt(positionStr, 10);
       if (!Number.isInteger(position) || position < 0) {
-        continue;
+        return rejections.reject('invalid-position', lineNumber, positionStr);
       }
 
-      // Validate genotype (should be 2 characters: AA, TT, GG, CC, or --)
-      if (genotype.length !== 2) {
-        continue;
+      // GSA- and -Y- entries are internal IDs, not standard rsids. They can only be
+      // matched by position, so skip the ones without one.
+      if (!rsid.startsWith('rs') && (chromosome === '0' || position === 0)) {
+        return rejections.reject('non-rs-id', lineNumber, rsid);
       }
 
-      const validBases = new Set(['A', 'T', 'G', 'C', '-']);
-      if (!validBases.has(genotype[0]) || !validBases.has(genotype[1])) {
-        continue;
+      // Validate genotype (2 characters: AA, TT, GG, CC, or --; 1 on hemizygous chromosomes)
+      if (!isValidCall(genotype, chromosome, validBases)) {
+        return rejections.reject('invalid-genotype', lineNumber, genotype);
       }
 
       // Store the entry (chromosome can be '0' for Monadic DNA files)
@@ -165,51 +325,59 @@ export function parseMonadicDNAFile(content: string): ParseResult {
       });
 
       validVariants++;
-    }
+    },
 
-    if (!headerFound) {
-      return {
-        success: false,
-        error: 'No valid Monadic DNA header found. Expected: RSID,CHROMOSOME,POSITION,RESULT',
-      };
-    }
+    finish() {
+      if (!headerFound) {
+        return {
+          success: false,
+          error: 'No valid Monadic DNA header found. Expected: RSID,CHROMOSOME,POSITION,RESULT',
+        };
+      }
+
+      if (validVariants === 0) {
+        return {
+          success: false,
+          error: 'No valid genotype data found in file. Please ensure the file is in Monadic DNA format.',
+          diagnostics: rejections.diagnostics,
+        };
+      }
 
-    if (validVariants === 0) {
       return {
-        success: false,
-        error: 'No valid genotype data found in file. Please ensure the file is in Monadic DNA format.',
+        success: true,
+        data: genotypeData,
+        totalVariants,
+        validVariants,
+        diagnostics: rejections.diagnostics,
+        detectedFormat: 'monadic',
       };
-    }
+    },
+  };
+}
 
-    return {
-      success: true,
-      data: genotypeData,
-      totalVariants,
-      validVariants,
-      detectedFormat: 'monadic',
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: `Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    };
-  }
+export function parseMonadicDNAFile(content: string): ParseResult {
+  return parseLines(createMonadicDNAParser(), content);
 }
 
-export function parseAncestryDNAFile(content: string): ParseResult {
-  try {
-    const lines = content.split('\n');
-    const genotypeData: GenotypeData[] = [];
-    let totalVariants = 0;
-    let validVariants = 0;
-    let headerFound = false;
+export function createAncestryDNAParser(): GenotypeLineParser {
+  const genotypeData: GenotypeData[] = [];
+  let totalVariants = 0;
+  let validVariants = 0;
+  let lineNumber = 0;
+  const rejections = createRejectionCollector();
+  let headerFound = false;
+
+  // Validate alleles (should be single characters: A, T, G, C, I, D, or 0/-)
+  const validBases = new Set(['A', 'T', 'G', 'C', 'I', 'D', '0', '-']);
 
-    for (const line of lines) {
+  return {
+    pushLine(line) {
+      lineNumber++;
       const trimmedLine = line.trim();
 
       // Skip empty lines and comments
       if (!trimmedLine || trimmedLine.startsWith('#')) {
-        continue;
+        return;
       }
 
       // Check for header line (AncestryDNA uses rsid, chromosome, position, allele1, allele2)
@@ -217,12 +385,12 @@ export function parseAncestryDNAFile(content: string): ParseResult {
           trimmedLine.toLowerCase().includes('chromosome') &&
           trimmedLine.toLowerCase().includes('position')) {
         headerFound = true;
-        continue;
+        return;
       }
 
       // Skip if we haven't found the header yet
       if (!headerFound) {
-        continue;
+        return;
       }
 
       totalVariants++;
@@ -230,33 +398,25 @@ export function parseAncestryDNAFile(content: string): ParseResult {
 
       // Expected format: rsid chromosome position allele1 allele2
       if (parts.length < 5) {
-        continue;
+        return rejections.reject('wrong-column-count', lineNumber, trimmedLine);
       }
 
-      const [rsid, chromosome, positionStr, allele1, allele2] = parts;
-
-      // Validate rsid format (should start with rs or be a numeric ID)
-      if (!rsid.startsWith('rs') && !/^\d+$/.test(rsid)) {
-        continue;
-      }
+      const [rsid, chromosomeCode, positionStr, allele1, allele2] = parts;
 
-      // Validate chromosome (1-22, X, Y, MT)
-      const validChromosomes = new Set(['1', '2', '3', '4', '5', '6', '7', '8', '9', '10',
-        '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '21', '22', 'X', 'Y', 'MT', 'M']);
-      if (!validChromosomes.has(chromosome)) {
-        continue;
+      // AncestryDNA numbers X, Y, the pseudoautosomal region and mitochondria 23-26
+      const chromosome = normalizeChromosomeCode(chromosomeCode);
+      if (!STANDARD_CHROMOSOMES.has(chromosome)) {
+        return rejections.reject('invalid-chromosome', lineNumber, chromosomeCode);
       }
 
       // Validate position (should be a positive integer)
       const position = parseInt(positionStr, 10);
       if (!Number.isInteger(position) || position <= 0) {
-        continue;
+        return rejections.reject('invalid-position', lineNumber, positionStr);
       }
 
-      // Validate alleles (should be single characters: A, T, G, C, I, D, or 0/-)
-      const validBases = new Set(['A', 'T', 'G', 'C', 'I', 'D', '0', '-']);
       if (!validBases.has(allele1) || !validBases.has(allele2)) {
-        continue;
+        return rejections.reject('invalid-genotype', lineNumber, `${allele1} ${allele2}`);
       }
 
       // Combine alleles into genotype format
@@ -270,106 +430,440 @@ export function parseAncestryDNAFile(content: string): ParseResult {
 
       genotypeData.push({
         rsid,
-        chromosome: chromosome === 'M' ? 'MT' : chromosome, // Normalize MT chromosome
+        chromosome,
         position,
         genotype,
       });
 
       validVariants++;
-    }
+    },
+
+    finish() {
+      if (!headerFound) {
+        return {
+          success: false,
+          error: 'No valid AncestryDNA header found. Expected header with rsid, chromosome, position columns.',
+        };
+      }
+
+      if (validVariants === 0) {
+        return {
+          success: false,
+          error: 'No valid genotype data found in file. Please ensure the file is in AncestryDNA format.',
+          diagnostics: rejections.diagnostics,
+        };
+      }
 
-    if (!headerFound) {
       return {
-        success: false,
-        error: 'No valid AncestryDNA header found. Expected header with rsid, chromosome, position columns.',
+        success: true,
+        data: genotypeData,
+        totalVariants,
+        validVariants,
+        diagnostics: rejections.diagnostics,
+        detectedFormat: 'ancestrydna',
       };
-    }
+    },
+  };
+}
+
+export function parseAncestryDNAFile(content: string): ParseResult {
+  return parseLines(createAncestryDNAParser(), content);
+}
+
+// MyHeritage and FamilyTreeDNA share the same CSV layout: an RSID,CHROMOSOME,POSITION,RESULT
+// header (quoted in some FTDNA exports) followed by rows with every field in double quotes.
+function splitQuotedCSVLine(line: string): string[] {
+  return line.split(',').map(field => field.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+export function isVendorCSVHeader(line: string): boolean {
+  return splitQuotedCSVLine(line.trim()).join(',').toUpperCase().startsWith('RSID,CHROMOSOME,POSITION,RESULT');
+}
+
+function createVendorCSVParser(
+  detectedFormat: 'myheritage' | 'ftdna',
+  vendorName: string
+): GenotypeLineParser {
+  const genotypeData: GenotypeData[] = [];
+  let totalVariants = 0;
+  let validVariants = 0;
+  let lineNumber = 0;
+  const rejections = createRejectionCollector();
+  let headerFound = false;
+
+  // Valid alleles (A, T, G, C, I, D, or -); two per call, or one on X/Y/MT for males
+  const validBases = new Set(['A', 'T', 'G', 'C', 'I', 'D', '-']);
+
+  return {
+    pushLine(line) {
+      lineNumber++;
+      const trimmedLine = line.trim();
+
+      // Skip empty lines and comments (MyHeritage prefixes the file with # lines)
+      if (!trimmedLine || trimmedLine.startsWith('#')) {
+        return;
+      }
+
+      if (isVendorCSVHeader(trimmedLine)) {
+        headerFound = true;
+        return;
+      }
+
+      // Skip if we haven't found the header yet
+      if (!headerFound) {
+        return;
+      }
+
+      totalVariants++;
+      const parts = splitQuotedCSVLine(trimmedLine);
+
+      // Expected format: "RSID","CHROMOSOME","POSITION","RESULT"
+      if (parts.length !== 4) {
+        return rejections.reject('wrong-column-count', lineNumber, trimmedLine);
+      }
+
+      const [rsid, chromosomeCode, positionStr, genotype] = parts;
+      const chromosome = normalizeChromosomeCode(chromosomeCode);
+
+      // IDs other than rsIDs (vendor internal probes) are kept for position matching
+      if (!STANDARD_CHROMOSOMES.has(chromosome)) {
+        return rejections.reject('invalid-chromosome', lineNumber, chromosomeCode);
+      }
+
+      // Validate position (should be a positive integer)
+      const position = parseInt(positionStr, 10);
+      if (!Number.isInteger(position) || position <= 0) {
+        return rejections.reject('invalid-position', lineNumber, positionStr);
+      }
+
+      if (!isValidCall(genotype, chromosome, validBases)) {
+        return rejections.reject('invalid-genotype', lineNumber, genotype);
+      }
+
+      genotypeData.push({
+        rsid,
+        chromosome,
+        position,
+        genotype,
+      });
+
+      validVariants++;
+    },
+
+    finish() {
+      if (!headerFound) {
+        return {
+          success: false,
+          error: `No valid ${vendorName} header found. Expected: RSID,CHROMOSOME,POSITION,RESULT`,
+        };
+      }
+
+      if (validVariants === 0) {
+        return {
+          success: false,
+          error: `No valid genotype data found in file. Please ensure the file is in ${vendorName} format.`,
+          diagnostics: rejections.diagnostics,
+        };
+      }
 
-    if (validVariants === 0) {
       return {
-        success: false,
-        error: 'No valid genotype data found in file. Please ensure the file is in AncestryDNA format.',
+        success: true,
+        data: genotypeData,
+        totalVariants,
+        validVariants,
+        diagnostics: rejections.diagnostics,
+        detectedFormat,
       };
-    }
+    },
+  };
+}
 
-    return {
-      success: true,
-      data: genotypeData,
-      totalVariants,
-      validVariants,
-      detectedFormat: 'ancestrydna',
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: `Failed to parse file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    };
-  }
+export function createMyHeritageParser(): GenotypeLineParser {
+  return createVendorCSVParser('myheritage', 'MyHeritage');
 }
 
-export function detectAndParseGenotypeFile(content: string): ParseResult {
-  // Try to detect format by looking at first few non-comment lines
-  const lines = content.split('\n').slice(0, 20);
+export function parseMyHeritageFile(content: string): ParseResult {
+  return parseLines(createMyHeritageParser(), content);
+}
 
-  // Check for Monadic DNA format (CSV with header)
-  const hasMonadicHeader = lines.some(line =>
-    line.trim().toUpperCase().startsWith('RSID,CHROMOSOME,POSITION,RESULT')
-  );
+export function createFamilyTreeDNAParser(): GenotypeLineParser {
+  return createVendorCSVParser('ftdna', 'FamilyTreeDNA');
+}
 
-  if (hasMonadicHeader) {
-    return parseMonadicDNAFile(content);
-  }
+export function parseFamilyTreeDNAFile(content: string): ParseResult {
+  return parseLines(createFamilyTreeDNAParser(), content);
+}
 
-  // Check for AncestryDNA format (tab-separated with specific header)
-  const hasAncestryHeader = lines.some(line => {
-    const lower = line.trim().toLowerCase();
-    return lower.includes('rsid') &&
-           lower.includes('chromosome') &&
-           lower.includes('position') &&
-           lower.includes('allele1') &&
-           lower.includes('allele2');
-  });
-
-  if (hasAncestryHeader) {
-    return parseAncestryDNAFile(content);
-  }
+export function createLivingDNAParser(): GenotypeLineParser {
+  const genotypeData: GenotypeData[] = [];
+  let totalVariants = 0;
+  let validVariants = 0;
+  let lineNumber = 0;
+  const rejections = createRejectionCollector();
 
-  // Check for 23andMe format (comment lines starting with #)
-  const has23andMeComments = lines.some(line => line.trim().startsWith('#'));
+  // Valid alleles (A, T, G, C, or -); two per call, or one on X/Y/MT for males
+  const validBases = new Set(['A', 'T', 'G', 'C', '-']);
 
-  if (has23andMeComments) {
-    return parse23andMeFile(content);
-  }
+  return {
+    pushLine(line) {
+      lineNumber++;
+      const trimmedLine = line.trim();
 
-  // Try parsers in order of popularity
-  const result23andMe = parse23andMeFile(content);
-  if (result23andMe.success) {
-    return result23andMe;
-  }
+      // Skip empty lines and comments (including the "# rsid chromosome position genotype" header)
+      if (!trimmedLine || trimmedLine.startsWith('#')) {
+        return;
+      }
 
-  const resultAncestry = parseAncestryDNAFile(content);
-  if (resultAncestry.success) {
-    return resultAncestry;
-  }
+      totalVariants++;
+      const parts = trimmedLine.split(/\t/); // LivingDNA uses tabs
 
-  const resultMonadic = parseMonadicDNAFile(content);
-  if (resultMonadic.success) {
-    return resultMonadic;
-  }
+      // Expected format: rsid chromosome position genotype
+      if (parts.length !== 4) {
+        return rejections.reject('wrong-column-count', lineNumber, trimmedLine);
+      }
+
+      const [rsid, chromosomeCode, positionStr, genotype] = parts;
+      const chromosome = normalizeChromosomeCode(chromosomeCode);
+
+      // IDs other than rsIDs (vendor internal probes) are kept for position matching
+      if (!STANDARD_CHROMOSOMES.has(chromosome)) {
+        return rejections.reject('invalid-chromosome', lineNumber, chromosomeCode);
+      }
+
+      // Validate position (should be a positive integer)
+      const position = parseInt(positionStr, 10);
+      if (!Number.isInteger(position) || position <= 0) {
+        return rejections.reject('invalid-position', lineNumber, positionStr);
+      }
+
+      if (!isValidCall(genotype, chromosome, validBases)) {
+        return rejections.reject('invalid-genotype', lineNumber, genotype);
+      }
+
+      genotypeData.push({
+        rsid,
+        chromosome,
+        position,
+        genotype,
+      });
+
+      validVariants++;
+    },
+
+    finish() {
+      if (validVariants === 0) {
+        return {
+          success: false,
+          error: 'No valid genotype data found in file. Please ensure the file is in LivingDNA format.',
+          diagnostics: rejections.diagnostics,
+        };
+      }
+
+      return {
+        success: true,
+        data: genotypeData,
+        totalVariants,
+        validVariants,
+        diagnostics: rejections.diagnostics,
+        detectedFormat: 'livingdna',
+      };
+    },
+  };
+}
+
+export function parseLivingDNAFile(content: string): ParseResult {
+  return parseLines(createLivingDNAParser(), content);
+}
+
+// Normalize VCF chromosome names (chr1, chrX, chrM) to the 23andMe-style names used elsewhere
+// PLINK-exported VCFs keep PLINK's numeric codes (23 = X and so on) unless told otherwise
+function normalizeVCFChromosome(chrom: string): string {
+  return normalizeChromosomeCode(chrom.replace(/^chr/i, '').toUpperCase());
+}
+
+export function createVCFParser(options: VCFParseOptions = {}): GenotypeLineParser {
+  const genotypeData: GenotypeData[] = [];
+  let totalVariants = 0;
+  let validVariants = 0;
+  let lineNumber = 0;
+  const rejections = createRejectionCollector();
+  let samples: string[] | null = null;
+  let sampleColumn = -1;
+  let headerError: string | null = null;
 
-  // If all fail, return generic error
   return {
-    success: false,
-    error: 'Unable to detect file format. Supported formats: 23andMe (.txt), AncestryDNA (.txt), or Monadic DNA (.csv)',
+    pushLine(line) {
+      lineNumber++;
+      const trimmedLine = line.trim();
+
+      // Skip empty lines and meta-information lines (##fileformat, ##contig, ...)
+      if (headerError || !trimmedLine || trimmedLine.startsWith('##')) {
+        return;
+      }
+
+      // Column header: #CHROM POS ID REF ALT QUAL FILTER INFO FORMAT sample1 sample2 ...
+      if (trimmedLine.startsWith('#CHROM')) {
+        samples = trimmedLine.split('\t').slice(9);
+        if (samples.length === 0) {
+          headerError = 'VCF file contains no sample columns. Sites-only VCFs cannot be used for genotype analysis.';
+          return;
+        }
+
+        const selectedIndex = options.sampleName ? samples.indexOf(options.sampleName) : 0;
+        if (selectedIndex === -1) {
+          headerError = `Sample "${options.sampleName}" not found in VCF. Available samples: ${samples.join(', ')}`;
+          return;
+        }
+        sampleColumn = 9 + selectedIndex;
+        return;
+      }
+
+      // Skip if we haven't found the header yet
+      if (!samples) {
+        return;
+      }
+
+      totalVariants++;
+      const parts = trimmedLine.split('\t');
+
+      if (parts.length <= sampleColumn) {
+        return rejections.reject('wrong-column-count', lineNumber, trimmedLine);
+      }
+
+      const [chrom, positionStr, id, ref, alt, , , , format] = parts;
+
+      const chromosome = normalizeVCFChromosome(chrom);
+      if (!STANDARD_CHROMOSOMES.has(chromosome)) {
+        return rejections.reject('invalid-chromosome', lineNumber, chrom);
+      }
+
+      const position = parseInt(positionStr, 10);
+      if (!Number.isInteger(position) || position <= 0) {
+        return rejections.reject('invalid-position', lineNumber, positionStr);
+      }
+
+      // The ID column may hold several identifiers separated by ';' - prefer the rsid.
+      // Unnamed rows ('.') are keyed by locus and matched by position.
+      const ids = id.split(';');
+      const rsid = ids.find(candidate => candidate.startsWith('rs'))
+        ?? (id === '.' ? `${chromosome}:${position}` : ids[0]);
+
+      // Allele index 0 is REF, 1..n are the (possibly multi-allelic) ALT alleles.
+      // gVCF reference blocks use '<NON_REF>' / '<*>' as ALT, which is fine as long as the call doesn't use it.
+      const alleles = [ref.toUpperCase(), ...(alt === '.' ? [] : alt.toUpperCase().split(','))];
+
+      const formatKeys = format.split(':');
+      const sampleValues = parts[sampleColumn].split(':');
+      const fieldValue = (key: string): string | undefined => {
+        const index = formatKeys.indexOf(key);
+        return index === -1 ? undefined : sampleValues[index];
+      };
+
+      const gt = fieldValue('GT');
+      if (!gt) {
+        return rejections.reject('invalid-genotype', lineNumber, format);
+      }
+
+      // GT is unphased (0/1) or phased (0|1); haploid calls (chrY, chrMT) have a single index
+      const alleleIndexes = gt.split(/[\/|]/);
+      let genotype: string;
+
+      if (alleleIndexes.some(index => index === '.')) {
+        genotype = '--';
+      } else {
+        const calledAlleles = alleleIndexes.map(index => alleles[parseInt(index, 10)]);
+
+        // Skip calls referencing unknown indexes, symbolic alleles or spanning deletions ('*')
+        if (calledAlleles.some(allele => !allele || !/^[ACGTN]+$/.test(allele))) {
+          return rejections.reject('invalid-genotype', lineNumber, gt);
+        }
+
+        // SNVs keep the compact two-character form (e.g. "AG"); indels and MNPs
+        // need a separator to keep multi-base alleles apart (e.g. "A/AT")
+        genotype = calledAlleles.every(allele => allele.length === 1)
+          ? calledAlleles.join('')
+          : calledAlleles.join('/');
+      }
+
+      const quality = parseInt(fieldValue('GQ') ?? '', 10);
+      const depth = parseInt(fieldValue('DP') ?? '', 10);
+
+      genotypeData.push({
+        rsid,
+        chromosome,
+        position,
+        genotype,
+        ...(Number.isInteger(quality) && { quality }),
+        ...(Number.isInteger(depth) && { depth }),
+      });
+
+      validVariants++;
+    },
+
+    finish() {
+      if (headerError) {
+        return {
+          success: false,
+          error: headerError,
+        };
+      }
+
+      if (!samples) {
+        return {
+          success: false,
+          error: 'No valid VCF header found. Expected a #CHROM header line with at least one sample column.',
+        };
+      }
+
+      if (validVariants === 0) {
+        return {
+          success: false,
+          error: 'No valid genotype data found in file. Please ensure the VCF has rsIDs in the ID column and a GT FORMAT field.',
+          diagnostics: rejections.diagnostics,
+        };
+      }
+
+      return {
+        success: true,
+        data: genotypeData,
+        totalVariants,
+        validVariants,
+        diagnostics: rejections.diagnostics,
+        detectedFormat: 'vcf',
+        sampleName: samples[sampleColumn - 9],
+        availableSamples: samples,
+      };
+    },
   };
 }
 
-export function validateFileSize(file: File, maxSizeMB: number = 50): boolean {
+export function parseVCFFile(content: string, options: VCFParseOptions = {}): ParseResult {
+  return parseLines(createVCFParser(options), content);
+}
+
+// Maximum upload size. Files are streamed through a worker, so this is bounded by
+// the memory needed for the parsed variants rather than by the raw file size.
+export const MAX_UPLOAD_SIZE_MB = 500;
+
+export function validateFileSize(file: File, maxSizeMB: number = MAX_UPLOAD_SIZE_MB): boolean {
   return file.size <= maxSizeMB * 1024 * 1024;
 }
 
+const GENOTYPE_FILE_EXTENSIONS = ['.txt', '.tsv', '.csv', '.vcf', '.vcf.gz', '.txt.gz'];
+const ARCHIVE_FILE_EXTENSIONS = ['.zip', '.gz'];
+
+// Whether an archive member looks like a genotype file (skips READMEs, PDFs and macOS metadata)
+export function isGenotypeFileName(name: string): boolean {
+  const lowerName = name.toLowerCase();
+  const baseName = lowerName.split('/').pop() || '';
+  if (lowerName.startsWith('__macosx/') || baseName.startsWith('._') || baseName.startsWith('readme')) {
+    return false;
+  }
+  return GENOTYPE_FILE_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+}
+
 export function validateFileFormat(file: File): boolean {
-  const validExtensions = ['.txt', '.tsv', '.csv'];
+  const validExtensions = [...GENOTYPE_FILE_EXTENSIONS, ...ARCHIVE_FILE_EXTENSIONS];
   const fileName = file.name.toLowerCase();
   return validExtensions.some(ext => fileName.endsWith(ext));
 }
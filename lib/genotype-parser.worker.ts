@@ -0,0 +1,44 @@
+// Web Worker entry point for genotype parsing. The main thread posts the File and
+// terminates the worker to cancel; see GenotypeProvider in app/components/UserDataUpload.tsx.
+// PGS Catalog scoring files are read here too (app/components/PgsScorePanel.tsx).
+
+import { parseGenotypeFileStream, GenotypeFileProgress, GenotypeWorkerMessage, GenotypeWorkerRequest } from './genotype-stream';
+import { readPgsScoringFile } from './pgs-scoring';
+// Registers in-house formats with the format registry
+import './custom-genotype-formats';
+
+// Throttle progress messages to whole-percent changes
+let lastReportedPercent = -1;
+
+function post(message: GenotypeWorkerMessage) {
+  self.postMessage(message);
+}
+
+function reportProgress({ bytesRead, totalBytes }: GenotypeFileProgress) {
+  const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : 0;
+  if (percent !== lastReportedPercent) {
+    lastReportedPercent = percent;
+    post({ type: 'progress', bytesRead, totalBytes });
+  }
+}
+
+self.onmessage = async (event: MessageEvent<GenotypeWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'pgs-scoring-file') {
+      const scoringFile = await readPgsScoringFile(request.file, reportProgress);
+      post({ type: 'pgs-complete', scoringFile });
+      return;
+    }
+
+    const outcome = await parseGenotypeFileStream(request.file, {
+      archiveMember: request.archiveMember,
+      onProgress: reportProgress,
+    });
+
+    post({ type: 'complete', outcome });
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : 'Failed to read file' });
+  }
+};
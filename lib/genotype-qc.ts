@@ -0,0 +1,116 @@
+// Quality-control summary of a parsed genotype file, so users and support staff can
+// judge whether an export is trustworthy before interpreting any results.
+
+import { GenotypeData, isNoCallGenotype, SexInference, splitGenotype } from './genotype-parser';
+
+export type ChromosomeCallSummary = {
+  chromosome: string;
+  total: number;
+  noCalls: number;
+};
+
+export type QCWarning = {
+  severity: 'warning' | 'error';
+  message: string;
+};
+
+export type GenotypeQCReport = {
+  totalVariants: number;
+  noCalls: number;
+  callRate: number; // Called share of all variants
+  chromosomes: ChromosomeCallSummary[]; // In karyotype order
+  heterozygosityRate: number | null; // Heterozygous share of called autosomal SNPs
+  warnings: QCWarning[];
+};
+
+const CHROMOSOME_ORDER = [...Array.from({ length: 22 }, (_, index) => String(index + 1)), 'X', 'Y', 'MT'];
+
+// Consumer arrays call 97-99.5% of their markers
+const LOW_CALL_RATE = 0.95;
+const FAILED_CALL_RATE = 0.8;
+
+// Array data typically shows 25-35% autosomal heterozygosity
+const LOW_HETEROZYGOSITY = 0.05;
+const HIGH_HETEROZYGOSITY = 0.5;
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export function computeGenotypeQC(data: GenotypeData[], sexInference?: SexInference | null): GenotypeQCReport {
+  const byChromosome = new Map<string, ChromosomeCallSummary>();
+  let noCalls = 0;
+  let autosomalCalls = 0;
+  let autosomalHeterozygous = 0;
+
+  for (const variant of data) {
+    const summary = byChromosome.get(variant.chromosome)
+      ?? { chromosome: variant.chromosome, total: 0, noCalls: 0 };
+    summary.total++;
+    byChromosome.set(variant.chromosome, summary);
+
+    if (isNoCallGenotype(variant.genotype)) {
+      summary.noCalls++;
+      noCalls++;
+      continue;
+    }
+
+    if (/^\d+$/.test(variant.chromosome)) {
+      autosomalCalls++;
+      const alleles = splitGenotype(variant.genotype);
+      if (alleles.length > 1 && alleles[0] !== alleles[1]) {
+        autosomalHeterozygous++;
+      }
+    }
+  }
+
+  const chromosomes = Array.from(byChromosome.values()).sort((a, b) => {
+    const rank = (chromosome: string) => {
+      const index = CHROMOSOME_ORDER.indexOf(chromosome);
+      return index === -1 ? CHROMOSOME_ORDER.length : index;
+    };
+    return rank(a.chromosome) - rank(b.chromosome);
+  });
+
+  const callRate = data.length > 0 ? (data.length - noCalls) / data.length : 0;
+  const heterozygosityRate = autosomalCalls > 0 ? autosomalHeterozygous / autosomalCalls : null;
+  const warnings: QCWarning[] = [];
+
+  if (callRate < FAILED_CALL_RATE) {
+    warnings.push({ severity: 'error', message: `Only ${percent(callRate)} of variants were called. The sample may have failed genotyping.` });
+  } else if (callRate < LOW_CALL_RATE) {
+    warnings.push({ severity: 'warning', message: `Call rate is ${percent(callRate)}, below the usual 97%+. Some results may be missing.` });
+  }
+
+  if (heterozygosityRate !== null && heterozygosityRate < LOW_HETEROZYGOSITY) {
+    warnings.push({
+      severity: 'error',
+      message: `Almost no heterozygous calls (${percent(heterozygosityRate)}). The export may be corrupted or report only one allele per SNP.`,
+    });
+  } else if (heterozygosityRate !== null && heterozygosityRate > HIGH_HETEROZYGOSITY) {
+    warnings.push({
+      severity: 'warning',
+      message: `Unusually high heterozygosity (${percent(heterozygosityRate)}), which can indicate a contaminated or mixed sample.`,
+    });
+  }
+
+  const missingAutosomes = CHROMOSOME_ORDER.slice(0, 22).filter(chromosome => {
+    const summary = byChromosome.get(chromosome);
+    return !summary || summary.noCalls === summary.total;
+  });
+  if (data.length > 0 && missingAutosomes.length > 0 && missingAutosomes.length < 22) {
+    warnings.push({
+      severity: 'warning',
+      message: `No calls on chromosome${missingAutosomes.length > 1 ? 's' : ''} ${missingAutosomes.join(', ')}. The file may be truncated.`,
+    });
+  }
+
+  if (sexInference && sexInference.sex === 'unknown' && sexInference.xHeterozygosity !== null) {
+    warnings.push({
+      severity: 'warning',
+      message: 'X and Y calls don\'t fit a typical XX or XY pattern, so X-linked variants are counted as two copies.',
+    });
+  }
+
+  return { totalVariants: data.length, noCalls, callRate, chromosomes, heterozygosityRate, warnings };
+}
@@ -0,0 +1,167 @@
+// Streaming genotype file reader. Runs inside the genotype parser Web Worker
+// (lib/genotype-parser.worker.ts) so multi-hundred-megabyte files are decompressed,
+// hashed and parsed line by line without blocking the UI thread. PGS Catalog scoring
+// files are read through the same worker and line reader (lib/pgs-scoring.ts).
+
+import { isGenotypeFileName, ParseResult } from './genotype-parser';
+import { createGenotypeFileParser } from './genotype-formats';
+import { createFileHasher } from './file-hash';
+import { liftoverToCatalogBuild } from './liftover';
+import { inferChromosomalSex } from './sex-inference';
+import { computeGenotypeQC, GenotypeQCReport } from './genotype-qc';
+import { decompressGzipStream, extractZipEntry, isGzipData, isZipData, listZipEntries } from './decompression';
+import type { PgsScoringFile } from './pgs-scoring';
+
+export type GenotypeFileProgress = {
+  bytesRead: number;
+  totalBytes: number;
+};
+
+export type GenotypeFileOutcome =
+  | {
+      type: 'parsed';
+      result: ParseResult;
+      fileHash: string; // Hash of the decompressed text, stable across compressed and plain uploads
+      memberName?: string; // Archive member the genotypes were read from
+      qc?: GenotypeQCReport; // Call rate, heterozygosity and warnings for the parsed data
+    }
+  | {
+      type: 'archive-members'; // Archive holds several genotype files - the user must choose one
+      members: string[];
+    };
+
+// Messages exchanged with the genotype parser worker
+export type GenotypeWorkerRequest =
+  | { type: 'genotype-file'; file: File; archiveMember?: string }
+  | { type: 'pgs-scoring-file'; file: File };
+
+export type GenotypeWorkerMessage =
+  | ({ type: 'progress' } & GenotypeFileProgress)
+  | { type: 'complete'; outcome: GenotypeFileOutcome }
+  | { type: 'pgs-complete'; scoringFile: PgsScoringFile }
+  | { type: 'error'; error: string };
+
+// Count bytes as they are pulled from the source so progress reflects the file on disk
+export function withProgress(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  onProgress?: (progress: GenotypeFileProgress) => void
+): ReadableStream<Uint8Array> {
+  let bytesRead = 0;
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.length;
+      onProgress?.({ bytesRead, totalBytes });
+      controller.enqueue(chunk);
+    },
+  }));
+}
+
+// Decode a byte stream and hand it on one line at a time. onText sees the decoded text
+// as it arrives, for hashing.
+export async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+  onText?: (text: string) => void
+): Promise<void> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let remainder = '';
+
+  const pushText = (text: string) => {
+    onText?.(text);
+    const lines = (remainder + text).split('\n');
+    remainder = lines.pop() ?? '';
+    for (const line of lines) {
+      onLine(line);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pushText(decoder.decode(value, { stream: true }));
+  }
+
+  pushText(decoder.decode());
+  onLine(remainder);
+}
+
+async function parseTextStream(stream: ReadableStream<Uint8Array>): Promise<{ result: ParseResult; fileHash: string }> {
+  const parser = createGenotypeFileParser();
+  const hasher = createFileHasher();
+  await readLines(stream, parser.pushLine, text => hasher.update(text));
+  return { result: parser.finish(), fileHash: hasher.digest() };
+}
+
+// Pick the genotype member of a zip archive and inflate it. Vendor zips are a few
+// megabytes, so the archive is read whole; the extracted member is still streamed.
+async function extractArchiveMember(
+  file: Blob,
+  archiveMember?: string
+): Promise<{ member: Blob; memberName: string } | { members: string[] }> {
+  const archiveBytes = new Uint8Array(await file.arrayBuffer());
+  const candidates = listZipEntries(archiveBytes).filter(entry =>
+    !entry.name.endsWith('/') && isGenotypeFileName(entry.name)
+  );
+
+  if (candidates.length === 0) {
+    throw new Error('No genotype file (.txt, .csv, .tsv or .vcf) found inside the zip archive.');
+  }
+
+  const entry = archiveMember
+    ? candidates.find(candidate => candidate.name === archiveMember)
+    : candidates.length === 1 ? candidates[0] : undefined;
+
+  if (!entry) {
+    if (archiveMember) {
+      throw new Error(`${archiveMember} was not found in the zip archive.`);
+    }
+    return { members: candidates.map(candidate => candidate.name) };
+  }
+
+  const memberBytes = await extractZipEntry(archiveBytes, entry);
+  return { member: new Blob([memberBytes as BlobPart]), memberName: entry.name };
+}
+
+export async function parseGenotypeFileStream(
+  file: Blob,
+  options: {
+    archiveMember?: string;
+    onProgress?: (progress: GenotypeFileProgress) => void;
+  } = {}
+): Promise<GenotypeFileOutcome> {
+  let source = file;
+  let memberName: string | undefined;
+  let head = new Uint8Array(await source.slice(0, 18).arrayBuffer());
+
+  if (isZipData(head)) {
+    const extracted = await extractArchiveMember(source, options.archiveMember);
+    if ('members' in extracted) {
+      return { type: 'archive-members', members: extracted.members };
+    }
+    source = extracted.member;
+    memberName = extracted.memberName;
+    // Members may themselves be compressed (e.g. a .vcf.gz inside a zip)
+    head = new Uint8Array(await source.slice(0, 18).arrayBuffer());
+  }
+
+  let stream = withProgress(source.stream(), source.size, options.onProgress);
+  if (isGzipData(head)) {
+    stream = decompressGzipStream(stream, head);
+  }
+
+  const { result, fileHash } = await parseTextStream(stream);
+
+  // Catalog positions are on GRCh38; lift older builds so positional matching lines up
+  if (result.success && result.data && result.genomeBuild) {
+    result.liftover = await liftoverToCatalogBuild(result.data, result.genomeBuild.build);
+  }
+  if (result.success && result.data) {
+    result.sexInference = inferChromosomalSex(result.data, result.genomeBuild?.build);
+  }
+
+  const qc = result.success && result.data ? computeGenotypeQC(result.data, result.sexInference) : undefined;
+
+  return { type: 'parsed', result, fileHash, memberName, qc };
+}
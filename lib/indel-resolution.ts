@@ -0,0 +1,94 @@
+// Indel genotype resolution. 23andMe and AncestryDNA report insertion/deletion calls as
+// I and D, while the GWAS Catalog names the risk allele by sequence ("rs123-AT").
+// A local reference table (public/reference/indel-alleles.tsv, see README) gives the
+// inserted and deleted allele for each indel rsID so the two can be compared.
+
+import { splitGenotype } from './genotype-parser';
+
+export type IndelAlleles = {
+  insertion: string; // Allele reported as I (the longer one)
+  deletion: string; // Allele reported as D (the shorter one, or '-' when empty)
+};
+
+export type IndelReferenceTable = Map<string, IndelAlleles>;
+
+export const INDEL_REFERENCE_URL = '/reference/indel-alleles.tsv';
+
+// Risk allele spellings that name the deletion/insertion rather than a sequence
+const DELETION_MARKERS = new Set(['-', 'DEL', 'D']);
+const INSERTION_MARKERS = new Set(['INS', 'I']);
+
+// rsid<TAB>insertion<TAB>deletion, with an optional header row and # comments
+export function parseIndelReferenceTable(content: string): IndelReferenceTable {
+  const table: IndelReferenceTable = new Map();
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.toLowerCase().startsWith('rsid')) {
+      continue;
+    }
+
+    const [rsid, insertion, deletion] = line.split('\t');
+    if (!rsid?.startsWith('rs') || !insertion || !deletion) {
+      continue;
+    }
+    table.set(rsid, { insertion: insertion.toUpperCase(), deletion: deletion.toUpperCase() });
+  }
+
+  return table;
+}
+
+// Returns null when the table isn't installed
+export async function loadIndelReferenceTable(): Promise<IndelReferenceTable | null> {
+  try {
+    const response = await fetch(INDEL_REFERENCE_URL);
+    if (!response.ok) {
+      return null;
+    }
+    return parseIndelReferenceTable(await response.text());
+  } catch {
+    return null;
+  }
+}
+
+// Allele part of a catalog risk allele ("rs123-AT" -> "AT", "rs123--" -> "-")
+export function extractRiskAllele(riskAllele: string): string {
+  const separator = riskAllele.indexOf('-');
+  return separator === -1 ? riskAllele : riskAllele.slice(separator + 1);
+}
+
+export function isIndelGenotype(genotype: string): boolean {
+  return /^[ID]+$/.test(genotype);
+}
+
+// Express an I/D call and the catalog risk allele in the same alleles. With a table
+// entry both become sequences ("ID" -> "AT/A"); without one, deletion/insertion markers
+// in the risk allele map onto I/D. resolved is false when they can't be compared.
+export function resolveIndelCall(
+  genotype: string,
+  rsid: string,
+  riskAllele: string,
+  table: IndelReferenceTable | null | undefined
+): { genotype: string; riskAllele: string; resolved: boolean } {
+  const risk = riskAllele.toUpperCase();
+  if (!isIndelGenotype(genotype)) {
+    return { genotype, riskAllele: risk, resolved: true };
+  }
+
+  const alleles = table?.get(rsid);
+  if (alleles) {
+    const concrete = splitGenotype(genotype).map(allele => (allele === 'I' ? alleles.insertion : alleles.deletion));
+    const concreteRisk = DELETION_MARKERS.has(risk) ? alleles.deletion
+      : INSERTION_MARKERS.has(risk) ? alleles.insertion
+      : risk;
+    return { genotype: concrete.join('/'), riskAllele: concreteRisk, resolved: true };
+  }
+
+  if (DELETION_MARKERS.has(risk)) {
+    return { genotype, riskAllele: 'D', resolved: true };
+  }
+  if (INSERTION_MARKERS.has(risk)) {
+    return { genotype, riskAllele: 'I', resolved: true };
+  }
+  return { genotype, riskAllele: risk, resolved: false };
+}
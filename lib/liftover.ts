@@ -0,0 +1,212 @@
+// Chain-file liftover to GRCh38, the build the GWAS Catalog reports chr_pos on.
+// Uses UCSC chain files served from public/liftover (see README), so positions are
+// converted in the browser without sending genotypes anywhere.
+
+import { GenomeBuild, GenotypeData, LiftoverSummary } from './genotype-parser';
+import { CATALOG_GENOME_BUILD } from './genome-build';
+import { decompressGzipStream, isGzipData } from './decompression';
+
+// Directory chain files are served from
+export const CHAIN_FILE_BASE_URL = '/liftover';
+
+// UCSC chain files for each source build
+export const CHAIN_FILE_NAMES: Partial<Record<GenomeBuild, string>> = {
+  GRCh36: 'hg18ToHg38.over.chain.gz',
+  GRCh37: 'hg19ToHg38.over.chain.gz',
+};
+
+// Ungapped aligned block. Coordinates are 0-based half-open, as in the chain format.
+type ChainBlock = {
+  start: number;
+  end: number;
+  score: number;
+  queryChromosome: string;
+  queryStart: number;
+  queryStrand: '+' | '-';
+  querySize: number;
+};
+
+// Blocks per source chromosome, sorted by start
+export type ChainIndex = Map<string, ChainBlock[]>;
+
+function normalizeChainChromosome(name: string): string {
+  const chromosome = name.replace(/^chr/i, '').toUpperCase();
+  return chromosome === 'M' ? 'MT' : chromosome;
+}
+
+// Parse a UCSC chain file:
+//   chain score tName tSize tStrand tStart tEnd qName qSize qStrand qStart qEnd id
+//   size dt dq   (repeated; the final line of a chain has only a size)
+export function parseChainFile(content: string): ChainIndex {
+  const blocksByChromosome = new Map<string, ChainBlock[]>();
+  let current: {
+    chromosome: string;
+    score: number;
+    targetPosition: number;
+    queryChromosome: string;
+    queryPosition: number;
+    queryStrand: '+' | '-';
+    querySize: number;
+  } | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const parts = line.split(/\s+/);
+    if (parts[0] === 'chain') {
+      if (parts.length < 12) {
+        throw new Error(`Malformed chain header: ${line.slice(0, 80)}`);
+      }
+      current = {
+        chromosome: normalizeChainChromosome(parts[2]),
+        score: Number(parts[1]),
+        targetPosition: Number(parts[5]),
+        queryChromosome: normalizeChainChromosome(parts[7]),
+        querySize: Number(parts[8]),
+        queryStrand: parts[9] === '-' ? '-' : '+',
+        queryPosition: Number(parts[10]),
+      };
+      continue;
+    }
+
+    if (!current) {
+      throw new Error('Chain file has alignment data before the first chain header');
+    }
+
+    const size = Number(parts[0]);
+    const blocks = blocksByChromosome.get(current.chromosome) ?? [];
+    blocks.push({
+      start: current.targetPosition,
+      end: current.targetPosition + size,
+      score: current.score,
+      queryChromosome: current.queryChromosome,
+      queryStart: current.queryPosition,
+      queryStrand: current.queryStrand,
+      querySize: current.querySize,
+    });
+    blocksByChromosome.set(current.chromosome, blocks);
+
+    if (parts.length >= 3) {
+      current.targetPosition += size + Number(parts[1]);
+      current.queryPosition += size + Number(parts[2]);
+    } else {
+      current = null;
+    }
+  }
+
+  // Overlapping blocks come from lower-scoring alternative chains; keep the best one
+  const index: ChainIndex = new Map();
+  blocksByChromosome.forEach((blocks, chromosome) => {
+    blocks.sort((a, b) => a.start - b.start);
+    const kept: ChainBlock[] = [];
+    for (const block of blocks) {
+      const previous = kept[kept.length - 1];
+      if (previous && block.start < previous.end) {
+        if (block.score > previous.score) {
+          kept[kept.length - 1] = block;
+        }
+        continue;
+      }
+      kept.push(block);
+    }
+    index.set(chromosome, kept);
+  });
+
+  return index;
+}
+
+// Lift a 1-based position. Returns null when the position falls in a gap or
+// moves to another chromosome.
+export function liftPosition(index: ChainIndex, chromosome: string, position: number): number | null {
+  const blocks = index.get(chromosome);
+  if (!blocks) {
+    return null;
+  }
+
+  const target = position - 1;
+  let low = 0;
+  let high = blocks.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const block = blocks[mid];
+    if (target < block.start) {
+      high = mid - 1;
+    } else if (target >= block.end) {
+      low = mid + 1;
+    } else {
+      if (block.queryChromosome !== chromosome) {
+        return null;
+      }
+      const offset = block.queryStart + (target - block.start);
+      // Reverse-strand query coordinates count from the end of the chromosome
+      const lifted = block.queryStrand === '-' ? block.querySize - 1 - offset : offset;
+      return lifted + 1;
+    }
+  }
+
+  return null;
+}
+
+// Fetch and parse the chain file for a build. Returns null when it isn't installed.
+export async function loadChainFile(from: GenomeBuild): Promise<ChainIndex | null> {
+  const fileName = CHAIN_FILE_NAMES[from];
+  if (!fileName) {
+    return null;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${CHAIN_FILE_BASE_URL}/${fileName}`);
+  } catch {
+    return null;
+  }
+  if (!response.ok) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const blob = new Blob([bytes as BlobPart]);
+  const head = bytes.slice(0, 18);
+  const stream = isGzipData(head) ? decompressGzipStream(blob.stream(), head) : blob.stream();
+
+  return parseChainFile(await new Response(stream).text());
+}
+
+// Fill in positionGRCh38 on every variant that lifts cleanly
+export function liftGenotypeData(data: GenotypeData[], index: ChainIndex, from: GenomeBuild): LiftoverSummary {
+  let lifted = 0;
+  let unmapped = 0;
+
+  for (const variant of data) {
+    const position = liftPosition(index, variant.chromosome, variant.position);
+    if (position === null) {
+      unmapped++;
+    } else {
+      variant.positionGRCh38 = position;
+      lifted++;
+    }
+  }
+
+  return { from, to: CATALOG_GENOME_BUILD, chainAvailable: true, lifted, unmapped };
+}
+
+// Lift a parsed file onto the catalog build if it is on an older one
+export async function liftoverToCatalogBuild(
+  data: GenotypeData[],
+  build: GenomeBuild
+): Promise<LiftoverSummary | undefined> {
+  if (build === CATALOG_GENOME_BUILD) {
+    return undefined;
+  }
+
+  const index = await loadChainFile(build);
+  if (!index) {
+    return { from: build, to: CATALOG_GENOME_BUILD, chainAvailable: false, lifted: 0, unmapped: data.length };
+  }
+
+  return liftGenotypeData(data, index, build);
+}
@@ -73,6 +73,52 @@ export function parseLogPValue(raw?: string | null): number | null {
   return Number.isNaN(value) ? null : value;
 }
 
+export type ConfidenceInterval = {
+  lower: number;
+  upper: number;
+  unit: string | null; // Beta units ("unit", "cm", "mg/dl"); null when none is given, as for odds ratios
+  direction: 'increase' | 'decrease' | null;
+};
+
+// Unit and direction that follow the bounds in ci_text ("[0.01-0.03] cm increase"),
+// ignoring subgroups in parentheses. Present even when the bounds are "[NR]".
+export function parseIntervalDescription(raw?: string | null): Pick<ConfidenceInterval, "unit" | "direction"> {
+  const description = (raw ?? "").replace(/^[^\]]*\]/, "").replace(/\([^)]*\)/g, " ").trim().toLowerCase();
+  const directionMatch = description.match(/\b(increase|decrease)\b/);
+  const unit = description.replace(/\b(increase|decrease)\b/, "").replace(/\s+/g, " ").trim();
+
+  return {
+    unit: unit || null,
+    direction: directionMatch ? (directionMatch[1] as "increase" | "decrease") : null,
+  };
+}
+
+// Catalog ci_text: "[1.08-1.15]", "[0.0068-0.0139] unit increase", "[-0.05--0.01] cm decrease",
+// sometimes with a subgroup in parentheses. "[NR]" and other unparseable bounds give null.
+export function parseConfidenceInterval(raw?: string | null): ConfidenceInterval | null {
+  if (!raw) {
+    return null;
+  }
+
+  const match = raw.trim().match(/^\[([^\]]*)\]/);
+  const bounds = match?.[1].match(/^\s*(-?[\d.]+(?:e[-+]?\d+)?)\s*(?:-|–|,|to)\s*(-?[\d.]+(?:e[-+]?\d+)?)\s*$/i);
+  if (!match || !bounds) {
+    return null;
+  }
+
+  const first = Number(bounds[1]);
+  const second = Number(bounds[2]);
+  if (Number.isNaN(first) || Number.isNaN(second)) {
+    return null;
+  }
+
+  return {
+    lower: Math.min(first, second),
+    upper: Math.max(first, second),
+    ...parseIntervalDescription(raw),
+  };
+}
+
 export type QualityFlag = {
   message: string;
   severity: 'major' | 'minor';
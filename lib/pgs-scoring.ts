@@ -0,0 +1,306 @@
+// Published polygenic scores from the PGS Catalog (https://www.pgscatalog.org). A scoring
+// file lists each variant's effect allele and weight; it is read from disk in the genotype
+// parser worker and scored against the upload entirely in the browser, with the same
+// allele counting as study results.
+
+import { ChromosomalSex, splitGenotype } from './genotype-parser';
+import { decompressGzipStream, isGzipData } from './decompression';
+import { GenotypeFileProgress, readLines, withProgress } from './genotype-stream';
+import { countRiskAlleles, isValidGenotype } from './risk-calculator';
+import { findGenotype, getPositionKey, PositionIndex } from './snp-utils';
+import { getRsidAliases, RsidMergeTable } from './rsid-merges';
+import { getPloidy } from './sex-inference';
+import { IndelReferenceTable, resolveIndelCall } from './indel-resolution';
+import { getComplement } from './strand-resolution';
+
+export type PgsMetadata = {
+  pgsId: string | null;
+  pgsName: string | null;
+  traitReported: string | null;
+  genomeBuild: string | null; // Build of chr_position, as published
+  harmonizedBuild: string | null; // Build of hm_pos, for harmonized files
+  weightType: string | null;
+  variantsNumber: number | null;
+};
+
+export type PgsVariant = {
+  rsid: string | null;
+  chromosome: string | null;
+  position: number | null; // GRCh38, when the file provides it; other builds can't use the position index
+  effectAllele: string;
+  otherAllele: string | null;
+  weight: number;
+  effectAlleleFrequency: number | null;
+  model: 'additive' | 'dominant' | 'recessive';
+};
+
+export type PgsScoringFile = {
+  metadata: PgsMetadata;
+  variants: PgsVariant[];
+  skippedRows: number; // Rows without a usable effect allele, weight or variant ID
+};
+
+export type PgsScoringFileParser = {
+  pushLine: (line: string) => void;
+  finish: () => PgsScoringFile;
+};
+
+export type PgsScoreResult = {
+  metadata: PgsMetadata;
+  variants: number;
+  skippedRows: number; // Scoring file rows left out when reading it (see PgsScoringFile)
+  matched: number;
+  matchedByPosition: number;
+  flipped: number; // Effect allele complemented to match the upload's strand
+  notOnChip: number;
+  noCalls: number;
+  alleleMismatch: number; // Neither allele of the variant is in the upload's call, or an I/D call can't be compared
+  rawScore: number; // Sum of weight × effect allele count
+  normalizedScore: number | null; // Raw score per allele scored, as PLINK's SCORE average
+  zScore: number | null; // Against allelefrequency_effect, when every matched variant has one
+};
+
+export type PgsScoreOptions = {
+  positionIndex?: PositionIndex | null;
+  mergeTable?: RsidMergeTable | null;
+  chromosomalSex?: ChromosomalSex;
+  indelTable?: IndelReferenceTable | null;
+};
+
+const METADATA_KEYS: Record<string, keyof PgsMetadata> = {
+  pgs_id: 'pgsId',
+  pgs_name: 'pgsName',
+  trait_reported: 'traitReported',
+  genome_build: 'genomeBuild',
+  HmPOS_build: 'harmonizedBuild',
+  weight_type: 'weightType',
+  variants_number: 'variantsNumber',
+};
+
+function isGRCh38(build: string | null): boolean {
+  return build === 'GRCh38' || build === 'hg38';
+}
+
+function normalizeChromosome(value: string | undefined): string | null {
+  const chromosome = value?.trim().replace(/^chr/i, '').toUpperCase();
+  if (!chromosome) return null;
+  return chromosome === 'M' ? 'MT' : chromosome;
+}
+
+function isTrue(value: string | undefined): boolean {
+  return value?.trim().toLowerCase() === 'true';
+}
+
+// Harmonized scoring files (PGS Catalog format 2.0): "#key=value" metadata lines, then a
+// tab-separated header and one row per variant. hm_ columns are used when they're on GRCh38.
+// Files run to millions of rows, so they are fed in line by line, as genotype files are.
+export function createPgsScoringFileParser(): PgsScoringFileParser {
+  const metadata: PgsMetadata = {
+    pgsId: null,
+    pgsName: null,
+    traitReported: null,
+    genomeBuild: null,
+    harmonizedBuild: null,
+    weightType: null,
+    variantsNumber: null,
+  };
+  const variants: PgsVariant[] = [];
+  let skippedRows = 0;
+  let columns: string[] | null = null;
+
+  const pushLine = (rawLine: string) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim()) return;
+
+    if (line.startsWith('#')) {
+      const [key, ...rest] = line.replace(/^#+/, '').split('=');
+      const field = METADATA_KEYS[key.trim()];
+      const value = rest.join('=').trim();
+      if (field === 'variantsNumber') {
+        metadata.variantsNumber = parseInt(value, 10) || null;
+      } else if (field && value && value !== 'NR') {
+        metadata[field] = value;
+      }
+      return;
+    }
+
+    if (!columns) {
+      columns = line.split('\t').map(column => column.trim());
+      if (!columns.includes('effect_allele') || !columns.includes('effect_weight')) {
+        throw new Error('Not a PGS Catalog scoring file: missing effect_allele or effect_weight column');
+      }
+      return;
+    }
+
+    const header = columns;
+    const fields = line.split('\t');
+    const get = (column: string): string | undefined => {
+      const index = header.indexOf(column);
+      return index === -1 ? undefined : fields[index]?.trim() || undefined;
+    };
+
+    const useHarmonized = isGRCh38(metadata.harmonizedBuild) && get('hm_pos') !== undefined;
+    const rsid = [get('hm_rsID'), get('rsID')].find(id => id?.startsWith('rs')) ?? null;
+    const chromosome = normalizeChromosome(useHarmonized ? get('hm_chr') : get('chr_name'));
+    const position = useHarmonized || isGRCh38(metadata.genomeBuild)
+      ? parseInt((useHarmonized ? get('hm_pos') : get('chr_position')) ?? '', 10)
+      : NaN;
+    const effectAllele = get('effect_allele')?.toUpperCase();
+    const frequency = parseFloat(get('allelefrequency_effect') ?? '');
+
+    // Scores published with odds or hazard ratio weights are summed on the log scale,
+    // which has no value for ratios of zero or below
+    const isRatioWeight = /^(OR|HR)$/i.test(metadata.weightType ?? '');
+    const rawWeight = parseFloat(get('effect_weight') ?? '');
+    const weight = isRatioWeight ? (rawWeight > 0 ? Math.log(rawWeight) : NaN) : rawWeight;
+
+    if (!effectAllele || !Number.isFinite(weight) || (!rsid && (!chromosome || !(position > 0)))) {
+      skippedRows++;
+      return;
+    }
+
+    variants.push({
+      rsid,
+      chromosome,
+      position: position > 0 ? position : null,
+      effectAllele,
+      otherAllele: (get('other_allele') ?? get('hm_inferOtherAllele'))?.toUpperCase() ?? null,
+      weight,
+      effectAlleleFrequency: frequency >= 0 && frequency <= 1 ? frequency : null,
+      model: isTrue(get('is_dominant')) ? 'dominant' : isTrue(get('is_recessive')) ? 'recessive' : 'additive',
+    });
+  };
+
+  const finish = (): PgsScoringFile => {
+    if (!columns) {
+      throw new Error('Not a PGS Catalog scoring file: no column header found');
+    }
+    return { metadata, variants, skippedRows };
+  };
+
+  return { pushLine, finish };
+}
+
+// Scoring files are distributed gzipped (.txt.gz); plain text is read as is. Runs in the
+// genotype parser worker (lib/genotype-parser.worker.ts).
+export async function readPgsScoringFile(
+  file: Blob,
+  onProgress?: (progress: GenotypeFileProgress) => void
+): Promise<PgsScoringFile> {
+  const head = new Uint8Array(await file.slice(0, 18).arrayBuffer());
+  let stream = withProgress(file.stream(), file.size, onProgress);
+  if (isGzipData(head)) {
+    stream = decompressGzipStream(stream, head);
+  }
+
+  const parser = createPgsScoringFileParser();
+  await readLines(stream, parser.pushLine);
+  return parser.finish();
+}
+
+// Line the effect allele up with the upload's call. Harmonized files are on the forward
+// strand; a call made of neither allele is checked on the reverse strand, unless the
+// variant is A/T or C/G and the strands can't be told apart.
+function alignEffectAllele(
+  genotype: string,
+  effectAllele: string,
+  otherAllele: string | null
+): { effectAllele: string; flipped: boolean } | null {
+  if (!otherAllele) {
+    return { effectAllele, flipped: false };
+  }
+  const alleles = [effectAllele, otherAllele];
+  const called = splitGenotype(genotype);
+  if (called.every(allele => alleles.includes(allele))) {
+    return { effectAllele, flipped: false };
+  }
+  const palindromic = getComplement(effectAllele) === otherAllele;
+  const complemented = alleles.map(getComplement);
+  if (!palindromic && called.every(allele => complemented.includes(allele))) {
+    return { effectAllele: getComplement(effectAllele), flipped: true };
+  }
+  return null;
+}
+
+export function computePgsScore(
+  genotypeMap: Map<string, string>,
+  { metadata, variants, skippedRows }: PgsScoringFile,
+  { positionIndex = null, mergeTable = null, chromosomalSex = 'unknown', indelTable }: PgsScoreOptions = {}
+): PgsScoreResult {
+  const result: PgsScoreResult = {
+    metadata,
+    variants: variants.length,
+    skippedRows,
+    matched: 0,
+    matchedByPosition: 0,
+    flipped: 0,
+    notOnChip: 0,
+    noCalls: 0,
+    alleleMismatch: 0,
+    rawScore: 0,
+    normalizedScore: null,
+    zScore: null,
+  };
+
+  let allelesScored = 0;
+  let expectedScore = 0;
+  let scoreVariance = 0;
+  let hasAllFrequencies = true;
+
+  for (const variant of variants) {
+    const locus = variant.chromosome && variant.position
+      ? { chromosome: variant.chromosome, position: variant.position }
+      : undefined;
+    const id = variant.rsid ?? (locus ? getPositionKey(locus.chromosome, locus.position) : '');
+    const aliases = variant.rsid ? getRsidAliases(variant.rsid, mergeTable) : [];
+    const found = findGenotype(genotypeMap, id, positionIndex, locus, aliases);
+
+    if (!found) {
+      result.notOnChip++;
+      continue;
+    }
+    if (!isValidGenotype(found.genotype)) {
+      result.noCalls++;
+      continue;
+    }
+
+    // Chips report indels as I/D; compare them in the scoring file's allele terms. The
+    // indel table is keyed by rsID, which a position match's matchedId ("chr:pos") isn't
+    const indelRsid = variant.rsid && indelTable?.has(variant.rsid) ? variant.rsid : found.matchedId;
+    const indel = resolveIndelCall(found.genotype, indelRsid, variant.effectAllele, indelTable);
+    const aligned = indel.resolved ? alignEffectAllele(indel.genotype, indel.riskAllele, variant.otherAllele) : null;
+    if (!aligned) {
+      result.alleleMismatch++;
+      continue;
+    }
+
+    const ploidy = getPloidy(variant.chromosome ?? undefined, variant.position ?? undefined, chromosomalSex);
+    const count = countRiskAlleles(indel.genotype, aligned.effectAllele, ploidy);
+    const dosage = variant.model === 'dominant' ? Math.min(count, 1)
+      : variant.model === 'recessive' ? (count === ploidy ? 1 : 0)
+      : count;
+
+    result.rawScore += variant.weight * dosage;
+    result.matched++;
+    if (found.matchMethod === 'position') result.matchedByPosition++;
+    if (aligned.flipped) result.flipped++;
+    allelesScored += ploidy;
+
+    const frequency = variant.effectAlleleFrequency;
+    if (frequency === null || variant.model !== 'additive') {
+      hasAllFrequencies = false;
+    } else {
+      expectedScore += variant.weight * ploidy * frequency;
+      scoreVariance += variant.weight * variant.weight * ploidy * frequency * (1 - frequency);
+    }
+  }
+
+  if (allelesScored > 0) {
+    result.normalizedScore = result.rawScore / allelesScored;
+  }
+  if (result.matched > 0 && hasAllFrequencies && scoreVariance > 0) {
+    result.zScore = (result.rawScore - expectedScore) / Math.sqrt(scoreVariance);
+  }
+
+  return result;
+}
@@ -0,0 +1,259 @@
+// Trait-level polygenic score: every catalog association for a trait, weighted by its
+// effect size and summed over the user's risk allele counts. Associations are fetched as
+// metadata from /api/trait-associations; genotypes are only read here, in the browser.
+
+import { ChromosomalSex } from './genotype-parser';
+import { parsePValue } from './parsing';
+import { analyzeStudyClientSide, getStudyDataIssue, NonMatchReason } from './risk-calculator';
+import { parseRiskAlleles } from './risk-alleles';
+import { PositionIndex, parseVariantIds } from './snp-utils';
+import { RsidMergeTable } from './rsid-merges';
+import { IndelReferenceTable } from './indel-resolution';
+import { parseRiskAlleleFrequency, SnpAlleleTable, StrandDecision } from './strand-resolution';
+import { estimateScorePercentile } from './genotype-frequency';
+import { EffectDirection, EffectType, signBetaEffect } from './effect-classification';
+
+// One catalog row, as returned by /api/trait-associations
+export type TraitAssociation = {
+  snps: string | null;
+  riskAllele: string | null;
+  effectSize: string | null;
+  effectType: EffectType;
+  effectUnit: string | null;
+  effectDirection: EffectDirection | null;
+  confidenceInterval: string | null;
+  pValue: string | null;
+  gwasId: string | null;
+  chrId: string | null;
+  chrPos: string | null;
+  snpIdCurrent: string | null;
+  riskAlleleFrequency: string | null;
+};
+
+// Odds ratios are summed as log-odds, hazard ratios as log-hazards, betas in the trait's own units
+export type PolygenicScale = 'log-odds' | 'log-hazard' | 'beta';
+
+export type PolygenicVariant = {
+  snp: string;
+  gwasId: string | null;
+  riskAllele: string;
+  genotype: string;
+  riskAlleleCount: number;
+  riskAlleleFrequency: number | null;
+  ploidy: 1 | 2;
+  weight: number; // Per-allele effect on the score's scale
+  contribution: number; // weight × riskAlleleCount
+  strand: StrandDecision;
+};
+
+// Variants that count toward the score but couldn't be read from the upload
+export type PolygenicMissingReason = Extract<NonMatchReason, 'not-on-chip' | 'no-call' | 'unresolved-indel'>;
+
+// Associations left out of the score altogether
+export type PolygenicExclusionReason =
+  | Extract<NonMatchReason, 'no-variants' | 'risk-allele-not-reported' | 'effect-size-missing'>
+  | 'multi-snp' // Haplotype or interaction effect, not a per-allele weight
+  | 'other-scale' // Reported on a scale or in a unit the score isn't using
+  | 'duplicate'; // Same variant reported by a more significant association
+
+export type PolygenicScore = {
+  trait: string;
+  scale: PolygenicScale;
+  unit: string | null; // Beta unit shared by every contributing association
+  score: number; // Sum of contributions, relative to carrying no risk alleles
+  centeredScore: number | null; // Relative to the population average, over variants with a risk allele frequency
+  centeredVariants: number;
+  percentile: number | null; // Among genotypes drawn from the same risk allele frequencies (0-100)
+  contributing: PolygenicVariant[];
+  missing: Array<{ snp: string; reason: PolygenicMissingReason }>;
+  excluded: Record<PolygenicExclusionReason, number>;
+  associations: number; // Catalog rows considered
+  truncated: boolean; // The API returned only part of the trait's associations
+};
+
+export type PolygenicScoreOptions = {
+  positionIndex?: PositionIndex | null;
+  mergeTable?: RsidMergeTable | null;
+  chromosomalSex?: ChromosomalSex;
+  indelTable?: IndelReferenceTable | null;
+  alleleTable?: SnpAlleleTable | null;
+  truncated?: boolean;
+};
+
+type WeightedAssociation = {
+  association: TraitAssociation;
+  snp: string;
+  scale: PolygenicScale;
+  unit: string | null;
+  weight: number;
+  pValue: number | null;
+};
+
+// Ratios are taken on the log scale so they add like betas; betas are signed by the
+// direction the catalog reports separately ("[0.01-0.03] cm decrease")
+function getWeight(association: TraitAssociation): { scale: PolygenicScale; unit: string | null; weight: number } | null {
+  const effect = parseFloat(association.effectSize ?? '');
+  if (association.effectType !== 'beta') {
+    const scale = association.effectType === 'HR' ? 'log-hazard' : 'log-odds';
+    return effect > 0 ? { scale, unit: null, weight: Math.log(effect) } : null;
+  }
+  if (isNaN(effect)) {
+    return null;
+  }
+  return { scale: 'beta', unit: association.effectUnit, weight: signBetaEffect(effect, association.effectDirection) };
+}
+
+export function computePolygenicScore(
+  genotypeMap: Map<string, string>,
+  trait: string,
+  associations: TraitAssociation[],
+  { positionIndex = null, mergeTable = null, chromosomalSex = 'unknown', indelTable, alleleTable, truncated = false }: PolygenicScoreOptions = {}
+): PolygenicScore {
+  const excluded: Record<PolygenicExclusionReason, number> = {
+    'no-variants': 0,
+    'risk-allele-not-reported': 0,
+    'effect-size-missing': 0,
+    'multi-snp': 0,
+    'other-scale': 0,
+    duplicate: 0,
+  };
+
+  // Only single-variant rows carry a per-allele weight
+  const weighted: WeightedAssociation[] = [];
+  for (const association of associations) {
+    const dataIssue = getStudyDataIssue(association.snps, association.riskAllele, association.effectSize);
+    if (dataIssue === 'no-variants' || dataIssue === 'risk-allele-not-reported' || dataIssue === 'effect-size-missing') {
+      excluded[dataIssue]++;
+      continue;
+    }
+    if (parseRiskAlleles(association.riskAllele, association.snps).notation !== 'single') {
+      excluded['multi-snp']++;
+      continue;
+    }
+    const weight = getWeight(association);
+    if (!weight) {
+      excluded['effect-size-missing']++;
+      continue;
+    }
+    weighted.push({
+      association,
+      snp: parseVariantIds(association.snps)[0],
+      ...weight,
+      pValue: parsePValue(association.pValue),
+    });
+  }
+
+  // Log-odds, log-hazards and betas in different units can't be added together; score
+  // on whichever scale and unit most rows use, preferring log-odds on a tie
+  const groupKey = (entry: Pick<WeightedAssociation, 'scale' | 'unit'>) => `${entry.scale}:${entry.unit ?? ''}`;
+  const groupCounts = new Map<string, number>([['log-odds:', 0]]);
+  weighted.forEach(entry => groupCounts.set(groupKey(entry), (groupCounts.get(groupKey(entry)) ?? 0) + 1));
+  const [majorityKey] = Array.from(groupCounts.entries()).reduce((best, group) => (group[1] > best[1] ? group : best));
+  const majority = weighted.find(entry => groupKey(entry) === majorityKey);
+  const scale: PolygenicScale = majority?.scale ?? 'log-odds';
+  const unit = majority?.unit ?? null;
+
+  // A variant reported by several studies counts once, with its most significant effect
+  const byVariant = new Map<string, WeightedAssociation>();
+  for (const entry of weighted) {
+    if (groupKey(entry) !== majorityKey) {
+      excluded['other-scale']++;
+      continue;
+    }
+    const current = byVariant.get(entry.snp);
+    if (!current) {
+      byVariant.set(entry.snp, entry);
+      continue;
+    }
+    excluded.duplicate++;
+    if ((entry.pValue ?? 1) < (current.pValue ?? 1)) {
+      byVariant.set(entry.snp, entry);
+    }
+  }
+
+  const contributing: PolygenicVariant[] = [];
+  const missing: PolygenicScore['missing'] = [];
+  let score = 0;
+  let centeredScore = 0;
+  let centeredVariants = 0;
+
+  byVariant.forEach(({ association, snp, weight }) => {
+    const riskAlleleFrequency = parseRiskAlleleFrequency(association.riskAlleleFrequency);
+    const result = analyzeStudyClientSide(
+      genotypeMap,
+      association.snps ?? '',
+      association.riskAllele,
+      association.effectSize,
+      association.gwasId,
+      association.effectType,
+      association.confidenceInterval,
+      {
+        effectDirection: association.effectDirection,
+        lookup: {
+          positionIndex,
+          chrId: association.chrId,
+          chrPos: association.chrPos,
+          mergeTable,
+          snpIdCurrent: association.snpIdCurrent,
+        },
+        chromosomalSex,
+        indelTable,
+        alleleTable,
+        riskAlleleFrequency,
+      }
+    );
+
+    const match = result.allMatches?.[0];
+    if (!match) {
+      const reason = result.nonMatch?.reason;
+      missing.push({
+        snp,
+        reason: reason === 'no-call' || reason === 'unresolved-indel' ? reason : 'not-on-chip',
+      });
+      return;
+    }
+
+    const contribution = weight * match.riskAlleleCount;
+    score += contribution;
+    contributing.push({
+      snp,
+      gwasId: association.gwasId,
+      riskAllele: match.riskAllele,
+      genotype: match.genotype,
+      riskAlleleCount: match.riskAlleleCount,
+      riskAlleleFrequency,
+      ploidy: match.ploidy,
+      weight,
+      contribution,
+      strand: match.strand,
+    });
+
+    // An average carrier has ploidy × frequency copies of the risk allele
+    if (riskAlleleFrequency !== null) {
+      centeredScore += weight * (match.riskAlleleCount - match.ploidy * riskAlleleFrequency);
+      centeredVariants++;
+    }
+  });
+
+  contributing.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  // Percentile over the same variants as the centered score
+  const percentile = estimateScorePercentile(contributing.flatMap(variant =>
+    variant.riskAlleleFrequency === null ? [] : [{ ...variant, riskAlleleFrequency: variant.riskAlleleFrequency }]
+  ));
+
+  return {
+    trait,
+    scale,
+    unit,
+    score,
+    centeredScore: centeredVariants > 0 ? centeredScore : null,
+    centeredVariants,
+    percentile,
+    contributing,
+    missing,
+    excluded,
+    associations: associations.length,
+    truncated,
+  };
+}
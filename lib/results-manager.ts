@@ -1,3 +1,7 @@
+import { ScoreRange, StudyAggregate, StudySnpMatch } from './risk-calculator';
+import { AbsoluteRisk } from './absolute-risk';
+import { EffectType } from './effect-classification';
+
 export type SavedResult = {
   studyId: number;
   gwasId?: string; // GWAS study accession ID
@@ -9,6 +13,15 @@ export type SavedResult = {
   riskScore: number;
   riskLevel: 'increased' | 'decreased' | 'neutral';
   matchedSnp: string;
+  effectType?: EffectType;
+  effectUnit?: string | null; // Beta unit; riskScore is then a shift in this unit, not a multiplier
+  confidenceInterval?: string; // Catalog ci_text
+  scoreRange?: ScoreRange; // riskScore at the interval's bounds
+  crossesNull?: boolean; // The interval includes no effect
+  matches?: StudySnpMatch[]; // Every matched SNP; riskScore combines them (see aggregate)
+  aggregate?: StudyAggregate;
+  absoluteRisk?: AbsoluteRisk; // Estimated from the trait's prevalence, for odds ratios
+  genotypeFrequency?: number; // Share of the study population with the same genotype
   analysisDate: string;
 };
 
@@ -0,0 +1,57 @@
+// Parsing of the catalog's strongest_snp_risk_allele field into one allele per variant.
+// Multi-SNP associations list an allele for each SNP, in the same notation as the snps
+// column: "rs1-A; rs2-G" for haplotypes and "rs1-A x rs2-G" for SNP-SNP interactions.
+
+import { extractRiskAllele } from './indel-resolution';
+import { parseVariantIds } from './snp-utils';
+
+export type RiskAlleleNotation = 'single' | 'haplotype' | 'interaction';
+
+export type RiskAlleleMap = {
+  notation: RiskAlleleNotation;
+  alleles: Map<string, string>; // Study variant ID -> risk allele ('?' when not reported)
+};
+
+const UNREPORTED_ALLELE = '?';
+
+// "rs1-A" -> ["rs1", "A"]; a term without an allele ("rs1") reports none
+function parseRiskAlleleTerm(term: string): [string, string] {
+  const separator = term.indexOf('-');
+  if (separator === -1) {
+    return [term, UNREPORTED_ALLELE];
+  }
+  const allele = extractRiskAllele(term).trim().toUpperCase();
+  return [term.slice(0, separator).trim(), allele || UNREPORTED_ALLELE];
+}
+
+export function isReportedAllele(allele: string | undefined): allele is string {
+  return !!allele && !allele.includes(UNREPORTED_ALLELE) && allele !== 'NR';
+}
+
+export function parseRiskAlleles(riskAllele: string | null, snps: string | null): RiskAlleleMap {
+  const variantIds = parseVariantIds(snps);
+  const field = riskAllele?.trim() ?? '';
+
+  const interactionTerms = field.split(/\s+x\s+/i);
+  const terms = interactionTerms.length > 1
+    ? interactionTerms
+    : field.split(/\s*[;,]\s*/);
+  const parsed = terms.map(term => term.trim()).filter(Boolean).map(parseRiskAlleleTerm);
+
+  const notation: RiskAlleleNotation = interactionTerms.length > 1 || /\s+x\s+/i.test(snps ?? '')
+    ? 'interaction'
+    : variantIds.length > 1 ? 'haplotype' : 'single';
+
+  const alleles = new Map<string, string>();
+  parsed.forEach(([id, allele], index) => {
+    if (variantIds.includes(id)) {
+      alleles.set(id, allele);
+    } else if (parsed.length === variantIds.length && !alleles.has(variantIds[index])) {
+      // Terms name the variant differently from the snps column (e.g. a merged rsID);
+      // fall back to list order
+      alleles.set(variantIds[index], allele);
+    }
+  });
+
+  return { notation, alleles };
+}
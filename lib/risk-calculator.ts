@@ -1,77 +1,179 @@
+import { ChromosomalSex, isNoCallGenotype, splitGenotype } from './genotype-parser';
+import { CatalogLookup, getCatalogLoci, getSNPMatches, MatchMethod, parseVariantIds } from './snp-utils';
+import { getPloidy } from './sex-inference';
+import { extractRiskAllele, IndelReferenceTable, resolveIndelCall } from './indel-resolution';
+import { resolveStrand, SnpAlleleTable, StrandDecision } from './strand-resolution';
+import { isReportedAllele, parseRiskAlleles, RiskAlleleNotation } from './risk-alleles';
+import { AbsoluteRisk, estimateAbsoluteRisk, TraitPrevalence } from './absolute-risk';
+import { getGenotypeShare } from './genotype-frequency';
+import { ConfidenceInterval, parseConfidenceInterval } from './parsing';
+import { EffectDirection, EffectType, isRatioEffect, signBetaEffect, signBetaInterval } from './effect-classification';
+
 export type UserStudyResult = {
   hasMatch: boolean;
   userGenotype?: string;
-  riskAllele?: string;
+  riskAllele?: string; // Primary variant and its risk allele ("rs123-A")
+  riskAlleleNotation?: RiskAlleleNotation; // Whether the effect belongs to a haplotype or interaction
   effectSize?: string;
-  effectType?: 'OR' | 'beta';
+  effectType?: EffectType;
+  effectUnit?: string | null; // Beta unit ("cm", "mg/dL", "SD"), from ci_text
   confidenceInterval?: string;
   riskScore?: number;
   riskLevel?: 'increased' | 'decreased' | 'neutral';
+  scoreRange?: ScoreRange; // riskScore at the confidence interval's bounds
+  crossesNull?: boolean; // The interval includes no effect (OR/HR 1.0 / beta 0)
   matchedSnp?: string;
+  matchMethod?: MatchMethod; // How the primary variant was found in the upload
+  matchedId?: string; // Its ID in the upload
+  ploidy?: 1 | 2; // 1 for hemizygous loci (X/Y in males, MT)
+  strand?: StrandDecision; // How the primary variant's risk allele was lined up with the upload
   gwasId?: string;
-  allMatches?: Array<{
-    snp: string;
-    genotype: string;
-    score: number;
-    level: 'increased' | 'decreased' | 'neutral';
-  }>;
+  allMatches?: StudySnpMatch[];
+  aggregate?: StudyAggregate; // riskScore/riskLevel combined across allMatches
+  absoluteRisk?: AbsoluteRisk; // Odds ratio results for traits with a known prevalence
+  genotypeFrequency?: number; // Expected share of the study population with the same genotype (0-1)
+  unresolvedIndels?: string[]; // I/D calls with no allele reference to compare against
+  nonMatch?: NonMatch; // Why there is no result, when hasMatch is false
 };
 
-// Helper function to get complement base
-function getComplement(base: string): string {
-  const complements: Record<string, string> = {
-    'A': 'T',
-    'T': 'A',
-    'C': 'G',
-    'G': 'C'
-  };
-  return complements[base.toUpperCase()] || base;
-}
+export type StudySnpMatch = {
+  snp: string;
+  riskAllele: string; // This variant's own risk allele, as the catalog reports it
+  genotype: string;
+  riskAlleleCount: number; // Copies of the forward-strand risk allele carried (0 to ploidy)
+  score: number;
+  level: 'increased' | 'decreased' | 'neutral';
+  range?: ScoreRange;
+  matchMethod: MatchMethod;
+  matchedId: string; // ID in the upload when it differs from the catalog's (merge alias or locus)
+  ploidy: 1 | 2;
+  strand: StrandDecision;
+};
+
+// A score recomputed at the lower and upper bounds of the study's confidence interval
+export type ScoreRange = {
+  lower: number;
+  upper: number;
+};
+
+// The matched SNPs rolled into one study result
+export type StudyAggregate = {
+  matchCount: number;
+  // 'independent': the row's one SNP scored on its own; 'combination': the study's
+  // haplotype or interaction estimate applied once
+  scoredAs: 'independent' | 'combination';
+  scoredSnp?: string; // Combination: the SNP whose risk allele copies the score uses
+  partial?: boolean; // Combination: some of its SNPs couldn't be read from the upload
+  missingSnps?: string[]; // Combination: those SNPs
+  combinedScore: number; // The SNP's score, or the combination's
+  combinedLevel: 'increased' | 'decreased' | 'neutral';
+  combinedRange?: ScoreRange;
+  worst: { snp: string; score: number }; // Highest single-SNP score
+  best: { snp: string; score: number }; // Lowest single-SNP score
+  // Results saved by earlier versions multiplied several SNPs' scores as if inherited
+  // independently; new results never do
+  assumesIndependence: boolean;
+};
+
+// Why a study can't be scored against the upload
+export type NonMatchReason =
+  | 'no-variants' // Catalog row lists no variant IDs
+  | 'risk-allele-not-reported' // Risk allele is missing, '?' or 'NR'
+  | 'effect-size-missing' // No usable OR or beta
+  | 'not-on-chip' // None of the study's variants are in the upload
+  | 'no-call' // Variants are in the upload but weren't called
+  | 'unresolved-indel'; // I/D calls with no allele reference
+
+export type NonMatch = {
+  reason: NonMatchReason;
+  snps?: string[]; // Study variants the reason applies to
+};
+
+export type StudyAnalysisOptions = {
+  lookup?: CatalogLookup; // Position and rsID-merge matching
+  chromosomalSex?: ChromosomalSex; // For X/Y allele dosage
+  indelTable?: IndelReferenceTable | null; // Resolves I/D calls to sequences
+  alleleTable?: SnpAlleleTable | null; // Forward-strand alleles, for flipping reverse-strand risk alleles
+  riskAlleleFrequency?: number | null; // Catalog risk_allele_frequency, for A/T and C/G SNPs
+  prevalence?: TraitPrevalence | null; // Trait prevalence, for turning odds ratios into absolute risk
+  effectDirection?: EffectDirection | null; // Sign of an unsigned catalog beta
+  effectUnit?: string | null; // Beta unit, carried through to the result
+};
 
 // Helper function to check if genotype is valid (not a no-call)
-function isValidGenotype(genotype: string): boolean {
-  // Filter out no-calls (--, -, 00, etc.)
-  return genotype !== '--' &&
-         genotype !== '-' &&
-         genotype !== '00' &&
-         genotype.length > 0 &&
-         !/^-+$/.test(genotype);
+export function isValidGenotype(genotype: string): boolean {
+  return !isNoCallGenotype(genotype);
+}
+
+// Problems with the catalog row itself, which no upload can get past. Shared with the
+// analyze-study route so it can report them without sending genotypes anywhere.
+export function getStudyDataIssue(
+  studySnps: string | null,
+  riskAllele: string | null,
+  effectSize: string | null
+): NonMatchReason | null {
+  if (parseVariantIds(studySnps).length === 0) {
+    return 'no-variants';
+  }
+  const { alleles } = parseRiskAlleles(riskAllele, studySnps);
+  if (!Array.from(alleles.values()).some(isReportedAllele)) {
+    return 'risk-allele-not-reported';
+  }
+  if (!effectSize || isNaN(parseFloat(effectSize))) {
+    return 'effect-size-missing';
+  }
+  return null;
+}
+
+// How many copies of the risk allele the user carries (0, 1, or 2). Also used by the
+// trait-level polygenic score, which weights each variant by this count.
+export function countRiskAlleles(userGenotype: string, riskAllele: string, ploidy: 1 | 2 = 2): number {
+  if (!isValidGenotype(userGenotype)) {
+    return 0;
+  }
+
+  // Extract the risk allele (e.g., "rs123-A" -> "A", "rs123-AT" -> "AT")
+  const riskAlleleBase = extractRiskAllele(riskAllele);
+  const userAlleles = splitGenotype(userGenotype);
+
+  // SECURITY FIX: Remove complement matching per audit recommendation
+  // GWAS Catalog and 23andMe both use forward strand, complement matching causes false positives
+  // Reverse-strand risk alleles are flipped beforehand, against allele data (lib/strand-resolution.ts)
+  // Hemizygous loci carry one copy, even when the chip reports it as homozygous ("AA")
+  return Math.min(ploidy, userAlleles.filter(allele => allele === riskAlleleBase).length);
 }
 
 export function calculateRiskScore(
   userGenotype: string,
   riskAllele: string,
   effectSize: string,
-  effectType: 'OR' | 'beta' = 'OR'
+  effectType: EffectType = 'OR',
+  ploidy: 1 | 2 = 2,
+  interval?: ConfidenceInterval | null
 ): {
   score: number;
   level: 'increased' | 'decreased' | 'neutral';
+  range?: ScoreRange;
 } {
-  // Parse effect size (OR or beta)
+  // Parse effect size (OR, HR or signed beta)
   const effect = parseFloat(effectSize);
+  const isRatio = isRatioEffect(effectType);
   if (isNaN(effect)) {
-    return { score: 1, level: 'neutral' };
+    return { score: isRatio ? 1 : 0, level: 'neutral' };
   }
 
   // Check if genotype is valid
   if (!isValidGenotype(userGenotype)) {
-    return { score: 1, level: 'neutral' };
+    return { score: isRatio ? 1 : 0, level: 'neutral' };
   }
 
-  // Extract the risk allele (e.g., "rs123-A" -> "A")
-  const riskAlleleBase = riskAllele.split('-').pop() || '';
-  const userAlleles = userGenotype.split('');
-
-  // Count how many risk alleles the user has (0, 1, or 2)
-  // SECURITY FIX: Remove complement matching per audit recommendation
-  // GWAS Catalog and 23andMe both use forward strand, complement matching causes false positives
-  const riskAlleleCount = userAlleles.filter(allele => allele === riskAlleleBase).length;
+  const riskAlleleCount = countRiskAlleles(userGenotype, riskAllele, ploidy);
 
   let riskScore: number;
   let riskLevel: 'increased' | 'decreased' | 'neutral';
 
-  if (effectType === 'OR') {
-    // Odds ratio: OR > 1 increases risk, OR < 1 decreases risk (protective)
+  if (isRatio) {
+    // Odds or hazard ratio: > 1 increases risk, < 1 decreases risk (protective)
     // Non-carriers are ALWAYS the reference baseline (1.0) in GWAS studies
 
     if (effect < 1) {
@@ -101,11 +203,10 @@ export function calculateRiskScore(
       riskScore = 1.0;
     }
   } else {
-    // Beta coefficient - represents units of trait change, not relative risk
-    // Return the raw beta-based score for display purposes only
-    // This should NOT be interpreted as a risk multiplier
-    riskScore = 1 + (effect * riskAlleleCount);
-    if (riskAlleleCount === 0) {
+    // Beta coefficient - the trait's shift in its own units relative to non-carriers,
+    // not a risk multiplier. Non-carriers are the baseline (0).
+    riskScore = effect * riskAlleleCount;
+    if (riskAlleleCount === 0 || effect === 0) {
       riskLevel = 'neutral';
     } else if (effect > 0) {
       riskLevel = 'increased';
@@ -114,7 +215,83 @@ export function calculateRiskScore(
     }
   }
 
-  return { score: Math.max(0.1, riskScore), level: riskLevel };
+  // The same genotype scored at each bound of the effect's confidence interval
+  const range = interval
+    ? {
+        lower: calculateRiskScore(userGenotype, riskAllele, String(interval.lower), effectType, ploidy).score,
+        upper: calculateRiskScore(userGenotype, riskAllele, String(interval.upper), effectType, ploidy).score,
+      }
+    : undefined;
+
+  return { score: isRatio ? Math.max(0.1, riskScore) : riskScore, level: riskLevel, range };
+}
+
+// Some catalog intervals don't describe the reported estimate (e.g. given for the other
+// allele, or on another scale); those are left out rather than shown as a wrong range
+export function getEffectInterval(confidenceInterval: string | null | undefined, effectSize: string): ConfidenceInterval | null {
+  const interval = parseConfidenceInterval(confidenceInterval);
+  const effect = parseFloat(effectSize);
+  if (!interval || isNaN(effect)) {
+    return null;
+  }
+  const tolerance = Math.max(Math.abs(effect) * 0.01, 1e-9);
+  return effect >= interval.lower - tolerance && effect <= interval.upper + tolerance ? interval : null;
+}
+
+// Whether the interval includes no effect: 1.0 for odds and hazard ratios, 0 for betas
+export function intervalCrossesNull(interval: ConfidenceInterval, effectType: EffectType = 'OR'): boolean {
+  const noEffect = isRatioEffect(effectType) ? 1 : 0;
+  return interval.lower <= noEffect && interval.upper >= noEffect;
+}
+
+// A row listing several variants is always a haplotype or interaction (see
+// parseRiskAlleles), so a 'single' row has exactly one match, scored on its own.
+//
+// Haplotype and interaction rows report one estimate for the combination, which
+// multiplying across SNPs would count several times. It is applied once instead, for as
+// many copies as every SNP carries: the SNP with the fewest risk alleles limits it. Without
+// phase this is an upper bound, since the alleles may sit on different chromosomes. When
+// some of the combination's SNPs couldn't be read, the score treats them as carrying their
+// risk alleles, and the aggregate is flagged as partial.
+export function aggregateMatches(
+  matches: StudySnpMatch[],
+  notation: RiskAlleleNotation = 'single',
+  studySnps: string[] = matches.map(match => match.snp)
+): StudyAggregate {
+  const sorted = [...matches].sort((a, b) => b.score - a.score);
+  const worst = sorted[0];
+  const best = sorted[sorted.length - 1];
+
+  if (notation === 'single') {
+    const [match] = matches;
+    return {
+      matchCount: 1,
+      scoredAs: 'independent',
+      combinedScore: match.score,
+      combinedLevel: match.level,
+      combinedRange: match.range,
+      worst: { snp: worst.snp, score: worst.score },
+      best: { snp: best.snp, score: best.score },
+      assumesIndependence: false,
+    };
+  }
+
+  const limiting = matches.reduce((fewest, match) => (match.riskAlleleCount < fewest.riskAlleleCount ? match : fewest));
+  const matched = new Set(matches.map(match => match.snp));
+  const missingSnps = studySnps.filter(snp => !matched.has(snp));
+  return {
+    matchCount: matches.length,
+    scoredAs: 'combination',
+    scoredSnp: limiting.snp,
+    partial: missingSnps.length > 0,
+    missingSnps: missingSnps.length > 0 ? missingSnps : undefined,
+    combinedScore: limiting.score,
+    combinedLevel: limiting.level,
+    combinedRange: limiting.range,
+    worst: { snp: worst.snp, score: worst.score },
+    best: { snp: best.snp, score: best.score },
+    assumesIndependence: false,
+  };
 }
 
 export function analyzeStudyClientSide(
@@ -123,64 +300,154 @@ export function analyzeStudyClientSide(
   riskAllele: string | null,
   effectSize: string | null,
   gwasId: string | null,
-  effectType: 'OR' | 'beta' = 'OR',
-  confidenceInterval?: string | null
+  effectType: EffectType = 'OR',
+  confidenceInterval?: string | null,
+  {
+    lookup,
+    chromosomalSex = 'unknown',
+    indelTable,
+    alleleTable,
+    riskAlleleFrequency = null,
+    prevalence,
+    effectDirection = null,
+    effectUnit = null,
+  }: StudyAnalysisOptions = {}
 ): UserStudyResult {
-  if (!riskAllele || !effectSize || !studySnps) {
-    return { hasMatch: false };
+  const dataIssue = getStudyDataIssue(studySnps, riskAllele, effectSize);
+  if (dataIssue || !effectSize) {
+    return { hasMatch: false, nonMatch: { reason: dataIssue ?? 'no-variants' } };
   }
 
-  // Extract SNP IDs from the study
-  const snpList = studySnps.split(/[;,\s]+/).map(s => s.trim()).filter(Boolean);
+  // Catalog betas are unsigned; a "decrease" beta is scored as negative. The interval
+  // is checked against the reported effect before it is signed the same way.
+  const isRatio = isRatioEffect(effectType);
+  const scoredEffect = isRatio ? effectSize : String(signBetaEffect(parseFloat(effectSize), effectDirection));
+  const reportedInterval = getEffectInterval(confidenceInterval, effectSize);
+  const interval = isRatio ? reportedInterval : signBetaInterval(reportedInterval, effectDirection);
+
+  // Extract SNP IDs from the study, each with its own risk allele
+  const snpList = parseVariantIds(studySnps);
+  const riskAlleles = parseRiskAlleles(riskAllele, studySnps);
+
+  // Variants missing by rsID can still be found through rsID merges or by position
+  const snpMatches = getSNPMatches(genotypeMap, studySnps, lookup);
+  // Catalog loci tell which variants sit on X/Y/MT, where allele dosage depends on sex
+  const loci = getCatalogLoci(studySnps, lookup?.chrId ?? null, lookup?.chrPos ?? null);
 
   // Find ALL matching SNPs (not just the first one)
-  const allMatches: Array<{
-    snp: string;
-    genotype: string;
-    score: number;
-    level: 'increased' | 'decreased' | 'neutral';
-  }> = [];
+  const allMatches: StudySnpMatch[] = [];
+  const unresolvedIndels: string[] = [];
+  const noCalls: string[] = [];
+  const unreportedAlleles: string[] = [];
 
   for (const snp of snpList) {
-    if (genotypeMap.has(snp)) {
-      const userGenotype = genotypeMap.get(snp)!;
-
+    const found = snpMatches.get(snp);
+    if (found) {
       // Skip invalid genotypes (no-calls, etc.)
-      if (!isValidGenotype(userGenotype)) {
+      if (!isValidGenotype(found.genotype)) {
+        noCalls.push(snp);
+        continue;
+      }
+
+      // Multi-SNP rows can report an allele for some variants only
+      const snpRiskAllele = riskAlleles.alleles.get(snp);
+      if (!isReportedAllele(snpRiskAllele)) {
+        unreportedAlleles.push(snp);
         continue;
       }
 
-      const { score, level } = calculateRiskScore(userGenotype, riskAllele, effectSize, effectType);
+      // Chips report indels as I/D; compare them in the catalog's allele terms. The indel
+      // table is keyed by rsID, which a position match's matchedId ("chr:pos") isn't
+      const indelRsid = indelTable?.has(snp) ? snp : found.matchedId;
+      const indel = resolveIndelCall(found.genotype, indelRsid, snpRiskAllele, indelTable);
+      if (!indel.resolved) {
+        unresolvedIndels.push(snp);
+        continue;
+      }
+      const userGenotype = indel.genotype;
+
+      // The allele table may only list the merged (current) rsID the upload matched on
+      const strandRsid = alleleTable?.has(snp) ? snp : found.matchedId;
+      const { riskAllele: forwardRiskAllele, strand } = resolveStrand(strandRsid, indel.riskAllele, alleleTable, riskAlleleFrequency);
+
+      const locus = loci.get(snp);
+      const ploidy = getPloidy(locus?.chromosome, locus?.position, chromosomalSex);
+      const scoredAllele = `${snp}-${forwardRiskAllele}`;
+      const { score, level, range } = calculateRiskScore(userGenotype, scoredAllele, scoredEffect, effectType, ploidy, interval);
 
       allMatches.push({
         snp,
+        riskAllele: snpRiskAllele,
         genotype: userGenotype,
+        riskAlleleCount: countRiskAlleles(userGenotype, scoredAllele, ploidy),
         score,
-        level
+        level,
+        range,
+        matchMethod: found.matchMethod,
+        matchedId: found.matchedId,
+        ploidy,
+        strand,
       });
     }
   }
 
   // No matches found
   if (allMatches.length === 0) {
-    return { hasMatch: false };
+    if (unresolvedIndels.length > 0) {
+      return { hasMatch: false, unresolvedIndels, nonMatch: { reason: 'unresolved-indel', snps: unresolvedIndels } };
+    }
+    if (noCalls.length > 0) {
+      return { hasMatch: false, nonMatch: { reason: 'no-call', snps: noCalls } };
+    }
+    if (unreportedAlleles.length > 0) {
+      return { hasMatch: false, nonMatch: { reason: 'risk-allele-not-reported', snps: unreportedAlleles } };
+    }
+    return { hasMatch: false, nonMatch: { reason: 'not-on-chip', snps: snpList } };
   }
 
-  // Return the first match as the primary result for backward compatibility
-  // but include all matches for comprehensive analysis
-  const primaryMatch = allMatches[0];
+  // The first match is the primary genotype shown, except for combinations, where it is
+  // the SNP the score was taken from
+  const aggregate = aggregateMatches(allMatches, riskAlleles.notation, snpList);
+  const primaryMatch = allMatches.find(match => match.snp === aggregate.scoredSnp) ?? allMatches[0];
+
+  // Genotype frequencies only describe the row's reported variant, so combined
+  // scores are calibrated against the prevalence alone
+  const absoluteRisk = effectType === 'OR' && prevalence
+    ? estimateAbsoluteRisk(aggregate.combinedScore, prevalence, {
+        perAlleleOddsRatio: riskAlleles.notation === 'single' ? parseFloat(effectSize) : null,
+        riskAlleleFrequency,
+        ploidy: primaryMatch.ploidy,
+      })
+    : undefined;
+
+  // The catalog's risk allele frequency belongs to the row's single reported variant
+  const genotypeFrequency = riskAlleleFrequency !== null && allMatches.length === 1 && riskAlleles.notation === 'single'
+    ? getGenotypeShare(riskAlleleFrequency, primaryMatch.riskAlleleCount, primaryMatch.ploidy)
+    : undefined;
 
   return {
     hasMatch: true,
     userGenotype: primaryMatch.genotype,
-    riskAllele,
+    riskAllele: `${primaryMatch.snp}-${primaryMatch.riskAllele}`,
+    riskAlleleNotation: riskAlleles.notation,
     effectSize,
     effectType,
+    effectUnit: isRatio ? undefined : effectUnit,
     confidenceInterval: confidenceInterval || undefined,
-    riskScore: primaryMatch.score,
-    riskLevel: primaryMatch.level,
+    riskScore: aggregate.combinedScore,
+    riskLevel: aggregate.combinedLevel,
+    scoreRange: aggregate.combinedRange,
+    crossesNull: interval ? intervalCrossesNull(interval, effectType) : undefined,
     matchedSnp: primaryMatch.snp,
+    matchMethod: primaryMatch.matchMethod,
+    matchedId: primaryMatch.matchedId,
+    ploidy: primaryMatch.ploidy,
+    strand: primaryMatch.strand,
     gwasId: gwasId || undefined,
     allMatches: allMatches,
+    aggregate,
+    absoluteRisk,
+    genotypeFrequency,
+    unresolvedIndels: unresolvedIndels.length > 0 ? unresolvedIndels : undefined,
   };
 }
@@ -0,0 +1,58 @@
+// Merge-aware rsID normalization. dbSNP retires rsIDs by merging them into another
+// one, so an upload may carry an old ID while the catalog carries the new one (or the
+// reverse). The catalog records merges in its merged / snp_id_current columns; those
+// pairs are served by /api/rsid-merges and turned into an alias table here.
+
+export type RsidMergeTable = {
+  toCurrent: Map<string, string>; // Retired rsID -> current rsID
+  aliases: Map<string, string[]>; // Current rsID -> every retired rsID merged into it
+};
+
+// snp_id_current holds the bare dbSNP number ("12345")
+export function toCurrentRsid(snpIdCurrent: string | null | undefined): string | null {
+  const id = snpIdCurrent?.trim();
+  if (!id) return null;
+  if (/^\d+$/.test(id)) return `rs${id}`;
+  return /^rs\d+$/.test(id) ? id : null;
+}
+
+export function createRsidMergeTable(merges: Array<{ rsid: string; currentRsid: string }>): RsidMergeTable {
+  const table: RsidMergeTable = { toCurrent: new Map(), aliases: new Map() };
+
+  for (const { rsid, currentRsid } of merges) {
+    if (rsid === currentRsid) continue;
+    table.toCurrent.set(rsid, currentRsid);
+    const aliases = table.aliases.get(currentRsid) ?? [];
+    if (!aliases.includes(rsid)) {
+      aliases.push(rsid);
+      table.aliases.set(currentRsid, aliases);
+    }
+  }
+
+  return table;
+}
+
+// Other rsIDs the same variant may be listed under, nearest first: the current ID,
+// then retired IDs merged into it. studyCurrentRsid is the catalog row's own
+// snp_id_current, which covers merges missing from the table.
+export function getRsidAliases(
+  rsid: string,
+  table: RsidMergeTable | null | undefined,
+  studyCurrentRsid?: string | null
+): string[] {
+  const current = table?.toCurrent.get(rsid) ?? studyCurrentRsid ?? rsid;
+  const aliases = [current, ...(table?.aliases.get(current) ?? [])];
+  return Array.from(new Set(aliases)).filter(alias => alias !== rsid);
+}
+
+export async function fetchRsidMergeTable(): Promise<RsidMergeTable> {
+  const response = await fetch('/api/rsid-merges');
+  if (!response.ok) {
+    throw new Error('Unable to load rsID merge history');
+  }
+  const payload = (await response.json()) as { merges?: Array<{ rsid: string; currentRsid: string }>; error?: string };
+  if (payload.error) {
+    throw new Error(payload.error);
+  }
+  return createRsidMergeTable(payload.merges ?? []);
+}
@@ -0,0 +1,82 @@
+// Chromosomal sex inference and ploidy. Males carry one X and one Y, so outside the
+// pseudoautosomal regions (PARs) their X calls are never heterozygous and their Y
+// markers are called; females show X heterozygosity and mostly no-calls on Y.
+
+import { ChromosomalSex, GenomeBuild, GenotypeData, isNoCallGenotype, SexInference, splitGenotype } from './genotype-parser';
+
+// PAR1 and PAR2 on chrX, where X and Y recombine and both sexes are diploid
+const PSEUDOAUTOSOMAL_REGIONS: Record<GenomeBuild, Array<[number, number]>> = {
+  GRCh36: [[1, 2709520], [154584238, 154913754]],
+  GRCh37: [[60001, 2699520], [154931044, 155260560]],
+  GRCh38: [[10001, 2781479], [155701383, 156030895]],
+};
+
+// Too few X calls to judge heterozygosity reliably
+const MIN_X_CALLS = 100;
+
+// Genotyping errors leave males with a little apparent X heterozygosity
+const MALE_MAX_X_HETEROZYGOSITY = 0.03;
+const FEMALE_MIN_X_HETEROZYGOSITY = 0.1;
+
+// Y probes cross-hybridize, so female files still call a few of them
+const MALE_MIN_Y_CALL_RATE = 0.5;
+const FEMALE_MAX_Y_CALL_RATE = 0.2;
+
+export function isPseudoautosomal(position: number, build: GenomeBuild = 'GRCh37'): boolean {
+  return PSEUDOAUTOSOMAL_REGIONS[build].some(([start, end]) => position >= start && position <= end);
+}
+
+export function inferChromosomalSex(data: GenotypeData[], build?: GenomeBuild | null): SexInference {
+  let xCalls = 0;
+  let xHeterozygous = 0;
+  let yMarkers = 0;
+  let yCalled = 0;
+
+  for (const variant of data) {
+    if (variant.chromosome === 'X') {
+      if (isNoCallGenotype(variant.genotype) || isPseudoautosomal(variant.position, build ?? undefined)) continue;
+      xCalls++;
+      const alleles = splitGenotype(variant.genotype);
+      if (alleles.length > 1 && alleles.some(allele => allele !== alleles[0])) {
+        xHeterozygous++;
+      }
+    } else if (variant.chromosome === 'Y') {
+      yMarkers++;
+      if (!isNoCallGenotype(variant.genotype)) {
+        yCalled++;
+      }
+    }
+  }
+
+  const xHeterozygosity = xCalls >= MIN_X_CALLS ? xHeterozygous / xCalls : null;
+  const yCallRate = yMarkers > 0 ? yCalled / yMarkers : null;
+
+  let sex: ChromosomalSex = 'unknown';
+  if (xHeterozygosity !== null) {
+    if (xHeterozygosity <= MALE_MAX_X_HETEROZYGOSITY && (yCallRate === null || yCallRate >= MALE_MIN_Y_CALL_RATE)) {
+      sex = 'XY';
+    } else if (xHeterozygosity >= FEMALE_MIN_X_HETEROZYGOSITY && (yCallRate === null || yCallRate <= FEMALE_MAX_Y_CALL_RATE)) {
+      sex = 'XX';
+    }
+  }
+
+  return { sex, xHeterozygosity, yCallRate, xCalls, yMarkers };
+}
+
+// Copies of a locus the person carries. Position is on GRCh38 (catalog chr_pos) when known;
+// without it X loci are assumed to lie outside the PARs, which hold few catalog hits.
+export function getPloidy(chromosome: string | undefined, position: number | undefined, sex: ChromosomalSex): 1 | 2 {
+  if (chromosome === 'MT') return 1;
+  if (sex !== 'XY') return 2;
+  if (chromosome === 'Y') return 1;
+  if (chromosome === 'X') {
+    return position !== undefined && isPseudoautosomal(position, 'GRCh38') ? 2 : 1;
+  }
+  return 2;
+}
+
+// Sex across several files for the same person; disagreement means it can't be trusted
+export function combineSexInferences(inferences: Array<SexInference | null | undefined>): ChromosomalSex {
+  const calls = new Set(inferences.map(inference => inference?.sex ?? 'unknown').filter(sex => sex !== 'unknown'));
+  return calls.size === 1 ? [...calls][0] : 'unknown';
+}
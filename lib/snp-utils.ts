@@ -1,21 +1,185 @@
+import { isNoCallGenotype } from './genotype-parser';
+import { getRsidAliases, RsidMergeTable, toCurrentRsid } from './rsid-merges';
+
+// Variant IDs in a catalog snps, chr_id or chr_pos field. SNP-SNP interactions separate
+// their terms with a lowercase " x ", which is dropped; chromosome "X" is kept.
 export function parseVariantIds(snps: string | null): string[] {
   if (!snps) return [];
   return snps
     .split(/[;,\s]+/)
     .map((id) => id.trim())
-    .filter(Boolean);
+    .filter((id) => id && id !== 'x');
 }
 
-export function hasMatchingSNPs(genotypeData: Map<string, string> | null, snps: string | null): boolean {
-  if (!genotypeData || !snps) return false;
-  
-  const studySnps = parseVariantIds(snps);
-  return studySnps.some(snp => genotypeData.has(snp));
+// Secondary genotype index keyed by chromosome and GRCh38 position, for variants the
+// catalog and the upload name differently (23andMe i-probes, GSA- IDs, unnamed VCF rows)
+export type PositionIndex = Map<string, string>;
+
+export type MatchMethod = 'rsid' | 'merged-rsid' | 'position';
+
+export type SNPMatch = {
+  genotype: string;
+  matchMethod: MatchMethod;
+  matchedId: string; // ID the variant has in the upload (a merge alias for 'merged-rsid')
+};
+
+export type CatalogLocus = {
+  chromosome: string;
+  position: number;
+};
+
+// What's needed to find a study's variants beyond an exact rsID match: catalog
+// coordinates (chr_id / chr_pos columns, GRCh38) and rsID merge history
+export type CatalogLookup = {
+  positionIndex: PositionIndex | null;
+  chrId: string | null;
+  chrPos: string | null;
+  mergeTable?: RsidMergeTable | null;
+  snpIdCurrent?: string | null; // Catalog's current rsID for the row (single-variant rows)
+};
+
+export function getPositionKey(chromosome: string, position: number): string {
+  return `${chromosome}:${position}`;
+}
+
+// Map each study variant to its catalog locus. chr_id/chr_pos list one entry per SNP in the
+// same order as the snps column ("rs1; rs2" / "1;1"), with a lowercase " x " separating interaction terms.
+// Variants the catalog names by position ("chr6:32664458") carry their own locus.
+export function getCatalogLoci(
+  snps: string | null,
+  chrId: string | null,
+  chrPos: string | null
+): Map<string, CatalogLocus> {
+  const loci = new Map<string, CatalogLocus>();
+  const variantIds = parseVariantIds(snps);
+  const chromosomes = parseVariantIds(chrId);
+  const positions = parseVariantIds(chrPos);
+  const aligned = chromosomes.length === variantIds.length && positions.length === variantIds.length;
+
+  variantIds.forEach((variantId, index) => {
+    const named = variantId.match(/^chr([0-9XYMT]+):(\d+)$/i);
+    const chromosome = named ? named[1] : aligned ? chromosomes[index] : undefined;
+    const position = parseInt(named ? named[2] : aligned ? positions[index] : '', 10);
+
+    if (chromosome && Number.isInteger(position) && position > 0) {
+      const normalized = chromosome.toUpperCase();
+      loci.set(variantId, { chromosome: normalized === 'M' ? 'MT' : normalized, position });
+    }
+  });
+
+  return loci;
+}
+
+// Genotype for a study variant: by rsID, then through rsID merges, then by catalog position
+export function findGenotype(
+  genotypeData: Map<string, string>,
+  snp: string,
+  positionIndex?: PositionIndex | null,
+  locus?: CatalogLocus,
+  aliases: string[] = []
+): SNPMatch | null {
+  const byRsid = genotypeData.get(snp);
+  if (byRsid !== undefined) {
+    return { genotype: byRsid, matchMethod: 'rsid', matchedId: snp };
+  }
+
+  for (const alias of aliases) {
+    const byAlias = genotypeData.get(alias);
+    if (byAlias !== undefined) {
+      return { genotype: byAlias, matchMethod: 'merged-rsid', matchedId: alias };
+    }
+  }
+
+  if (!positionIndex || !locus) return null;
+
+  const byPosition = positionIndex.get(getPositionKey(locus.chromosome, locus.position));
+  return byPosition === undefined
+    ? null
+    : { genotype: byPosition, matchMethod: 'position', matchedId: getPositionKey(locus.chromosome, locus.position) };
 }
 
-export function getMatchingSNPs(genotypeData: Map<string, string> | null, snps: string | null): string[] {
-  if (!genotypeData || !snps) return [];
-  
+// Every study variant found in the upload, keyed by the catalog's variant ID
+export function getSNPMatches(
+  genotypeData: Map<string, string> | null,
+  snps: string | null,
+  lookup?: CatalogLookup
+): Map<string, SNPMatch> {
+  const matches = new Map<string, SNPMatch>();
+  if (!genotypeData || !snps) return matches;
+
   const studySnps = parseVariantIds(snps);
-  return studySnps.filter(snp => genotypeData.has(snp));
+  const loci = lookup?.positionIndex ? getCatalogLoci(snps, lookup.chrId, lookup.chrPos) : null;
+  // snp_id_current describes the row as a whole, so it only applies to single-variant rows
+  const studyCurrentRsid = studySnps.length === 1 ? toCurrentRsid(lookup?.snpIdCurrent) : null;
+
+  for (const snp of studySnps) {
+    const aliases = snp.startsWith('rs') ? getRsidAliases(snp, lookup?.mergeTable, studyCurrentRsid) : [];
+    const match = findGenotype(genotypeData, snp, lookup?.positionIndex, loci?.get(snp), aliases);
+    if (match) {
+      matches.set(snp, match);
+    }
+  }
+
+  return matches;
+}
+
+export function hasMatchingSNPs(
+  genotypeData: Map<string, string> | null,
+  snps: string | null,
+  lookup?: CatalogLookup
+): boolean {
+  return getSNPMatches(genotypeData, snps, lookup).size > 0;
+}
+
+export function getMatchingSNPs(
+  genotypeData: Map<string, string> | null,
+  snps: string | null,
+  lookup?: CatalogLookup
+): string[] {
+  return Array.from(getSNPMatches(genotypeData, snps, lookup).keys());
+}
+
+// How much of a study (or of every study on a trait) the upload can speak to
+export type StudyCoverage = {
+  total: number; // Distinct variants the studies report
+  onChip: number; // Of those, present in the upload
+  noCalls: number; // Present but not called
+};
+
+// The variants behind a StudyCoverage, counting each once. A trait's tally merges its
+// studies' tallies, so each study is matched against the upload only once.
+export type CoverageTally = {
+  variants: Set<string>;
+  onChip: Set<string>;
+  noCalls: Set<string>;
+};
+
+export function createCoverageTally(): CoverageTally {
+  return { variants: new Set(), onChip: new Set(), noCalls: new Set() };
+}
+
+export function tallyStudyCoverage(
+  genotypeData: Map<string, string> | null,
+  snps: string | null,
+  lookup?: CatalogLookup
+): CoverageTally {
+  const tally = createCoverageTally();
+  parseVariantIds(snps).forEach(id => tally.variants.add(id));
+  getSNPMatches(genotypeData, snps, lookup).forEach((match, snp) => {
+    tally.onChip.add(snp);
+    if (isNoCallGenotype(match.genotype)) {
+      tally.noCalls.add(snp);
+    }
+  });
+  return tally;
+}
+
+export function mergeCoverageTally(into: CoverageTally, from: CoverageTally): void {
+  from.variants.forEach(id => into.variants.add(id));
+  from.onChip.forEach(id => into.onChip.add(id));
+  from.noCalls.forEach(id => into.noCalls.add(id));
+}
+
+export function summarizeCoverage({ variants, onChip, noCalls }: CoverageTally): StudyCoverage {
+  return { total: variants.size, onChip: onChip.size, noCalls: noCalls.size };
 }
@@ -0,0 +1,142 @@
+// Strand resolution for catalog risk alleles. Uploads report genotypes on the forward
+// strand, but some studies report the risk allele on the opposite strand. A local allele
+// table (public/reference/snp-alleles.tsv, see README) gives each SNP's forward-strand
+// reference and alternate alleles, so a reverse-strand risk allele can be flipped.
+// A/T and C/G SNPs read the same on both strands and need allele frequencies instead.
+
+export type SnpAlleles = {
+  ref: string;
+  alt: string;
+  altFrequency: number | null; // Population frequency of the alternate allele, when known
+};
+
+export type SnpAlleleTable = Map<string, SnpAlleles>;
+
+export const SNP_ALLELE_TABLE_URL = '/reference/snp-alleles.tsv';
+
+// How the catalog risk allele was lined up with the upload's forward-strand genotype
+export type StrandDecision =
+  | 'forward' // Risk allele is one of the SNP's forward-strand alleles
+  | 'flipped' // Risk allele was reported on the reverse strand and complemented
+  | 'ambiguous' // A/T or C/G SNP whose strand frequencies can't settle; scored as reported
+  | 'unverified' // No allele table entry; scored as reported
+  | 'mismatch'; // Risk allele isn't an allele of this SNP on either strand; scored as reported
+
+export const STRAND_DECISION_LABELS: Record<StrandDecision, string> = {
+  forward: 'Risk allele confirmed on the forward strand',
+  flipped: 'Risk allele was reported on the opposite strand and complemented to match your data',
+  ambiguous: 'A/T or C/G SNP: the strand of the reported risk allele can\'t be determined, so it was used as reported',
+  unverified: 'No allele reference for this SNP, so the risk allele was used as reported',
+  mismatch: 'The reported risk allele isn\'t a known allele of this SNP, so it was used as reported',
+};
+
+const COMPLEMENTS: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+// Frequencies this close to 0.5 can't tell the two strands of a palindromic SNP apart
+const PALINDROMIC_FREQUENCY_MARGIN = 0.1;
+
+export function getComplement(base: string): string {
+  return COMPLEMENTS[base.toUpperCase()] || base;
+}
+
+export function isPalindromic(alleles: SnpAlleles): boolean {
+  return getComplement(alleles.ref) === alleles.alt;
+}
+
+// rsid<TAB>ref<TAB>alt[<TAB>alt_frequency], with an optional header row and # comments.
+// Only biallelic single-base SNPs are kept; indels go in the indel table.
+export function parseSnpAlleleTable(content: string): SnpAlleleTable {
+  const table: SnpAlleleTable = new Map();
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.toLowerCase().startsWith('rsid')) {
+      continue;
+    }
+
+    const [rsid, ref, alt, frequency] = line.split('\t');
+    if (!rsid?.startsWith('rs') || !/^[ACGT]$/i.test(ref ?? '') || !/^[ACGT]$/i.test(alt ?? '')) {
+      continue;
+    }
+    const altFrequency = parseFloat(frequency ?? '');
+    table.set(rsid, {
+      ref: ref.toUpperCase(),
+      alt: alt.toUpperCase(),
+      altFrequency: altFrequency >= 0 && altFrequency <= 1 ? altFrequency : null,
+    });
+  }
+
+  return table;
+}
+
+// Returns null when the table isn't installed
+export async function loadSnpAlleleTable(): Promise<SnpAlleleTable | null> {
+  try {
+    const response = await fetch(SNP_ALLELE_TABLE_URL);
+    if (!response.ok) {
+      return null;
+    }
+    return parseSnpAlleleTable(await response.text());
+  } catch {
+    return null;
+  }
+}
+
+// Catalog risk_allele_frequency ("0.23", "NR") as a number
+export function parseRiskAlleleFrequency(value: string | null | undefined): number | null {
+  const frequency = parseFloat(value ?? '');
+  return frequency >= 0 && frequency <= 1 ? frequency : null;
+}
+
+// Palindromic SNPs: the reported risk allele is on the forward strand when its
+// forward-strand population frequency agrees with the study's risk allele frequency
+// (both above or both below 0.5). Too close to 0.5 on either side stays ambiguous.
+function resolvePalindromic(
+  risk: string,
+  alleles: SnpAlleles,
+  riskAlleleFrequency: number | null
+): StrandDecision {
+  if (alleles.altFrequency === null || riskAlleleFrequency === null) {
+    return 'ambiguous';
+  }
+  const forwardFrequency = risk === alleles.alt ? alleles.altFrequency : 1 - alleles.altFrequency;
+  if (
+    Math.abs(forwardFrequency - 0.5) < PALINDROMIC_FREQUENCY_MARGIN ||
+    Math.abs(riskAlleleFrequency - 0.5) < PALINDROMIC_FREQUENCY_MARGIN
+  ) {
+    return 'ambiguous';
+  }
+  return (forwardFrequency > 0.5) === (riskAlleleFrequency > 0.5) ? 'forward' : 'flipped';
+}
+
+// Line a catalog risk allele up with the forward strand. Only single-base risk alleles
+// are considered; anything else is returned unchanged as 'unverified'.
+export function resolveStrand(
+  rsid: string,
+  riskAllele: string,
+  table: SnpAlleleTable | null | undefined,
+  riskAlleleFrequency: number | null = null
+): { riskAllele: string; strand: StrandDecision } {
+  const risk = riskAllele.toUpperCase();
+  const alleles = table?.get(rsid);
+  if (!alleles || !COMPLEMENTS[risk]) {
+    return { riskAllele: risk, strand: 'unverified' };
+  }
+
+  if (isPalindromic(alleles)) {
+    if (risk !== alleles.ref && risk !== alleles.alt) {
+      return { riskAllele: risk, strand: 'mismatch' };
+    }
+    const strand = resolvePalindromic(risk, alleles, riskAlleleFrequency);
+    return { riskAllele: strand === 'flipped' ? getComplement(risk) : risk, strand };
+  }
+
+  if (risk === alleles.ref || risk === alleles.alt) {
+    return { riskAllele: risk, strand: 'forward' };
+  }
+  const complement = getComplement(risk);
+  if (complement === alleles.ref || complement === alleles.alt) {
+    return { riskAllele: complement, strand: 'flipped' };
+  }
+  return { riskAllele: risk, strand: 'mismatch' };
+}